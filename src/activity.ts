@@ -0,0 +1,84 @@
+import type { Interval, Session, SessionActivity } from './types.js';
+
+/**
+ * Shared activity model. Parsers only report when things happened
+ * (SessionActivity); every duration shown to the user is derived here, so
+ * all tools are measured the same way and parallel sessions count once.
+ *
+ * - Active time: consecutive events no further apart than the idle threshold
+ *   form one interval; the union of those intervals is wall-clock active time.
+ * - Agent busy time: the union of spans the agent was generating, where the
+ *   tool records them, otherwise the session's active intervals.
+ */
+
+export const DEFAULT_IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+
+/** Recorded generation spans longer than this are treated as bogus completion timestamps */
+const MAX_BUSY_SPAN_MS = 5 * 60 * 1000;
+
+export function emptyActivity(): SessionActivity {
+  return { timestamps: [], busy: [] };
+}
+
+/** Intervals of activity: events joined whenever the gap between them is within the threshold. */
+export function activeIntervals(timestamps: number[], idleThresholdMs = DEFAULT_IDLE_THRESHOLD_MS): Interval[] {
+  const sorted = [...timestamps].sort((a, b) => a - b);
+  const intervals: Interval[] = [];
+  for (const ts of sorted) {
+    const last = intervals[intervals.length - 1];
+    if (last && ts - last.endMs <= idleThresholdMs) {
+      last.endMs = ts;
+    } else {
+      intervals.push({ startMs: ts, endMs: ts });
+    }
+  }
+  return intervals;
+}
+
+/** Union of possibly overlapping intervals, sorted by start. */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.startMs - b.startMs);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const prev = merged[merged.length - 1];
+    if (prev && interval.startMs <= prev.endMs) {
+      prev.endMs = Math.max(prev.endMs, interval.endMs);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+export function intervalsMs(intervals: Interval[]): number {
+  return mergeIntervals(intervals).reduce((sum, i) => sum + (i.endMs - i.startMs), 0);
+}
+
+/** Wall-clock active time of a single session's events. */
+export function activeDurationMs(timestamps: number[], idleThresholdMs = DEFAULT_IDLE_THRESHOLD_MS): number {
+  return intervalsMs(activeIntervals(timestamps, idleThresholdMs));
+}
+
+/** A recorded generation span ending at `endMs`, clipped to the sanity cap. */
+export function busySpan(endMs: number, durationMs: number): Interval {
+  return { startMs: endMs - Math.min(Math.max(durationMs, 0), MAX_BUSY_SPAN_MS), endMs };
+}
+
+/**
+ * Active and agent-busy time across sessions, with overlaps counted once.
+ * Also returns the merged active intervals for charts.
+ */
+export function measureActivity(
+  sessions: Session[],
+  idleThresholdMs = DEFAULT_IDLE_THRESHOLD_MS,
+): { activeMs: number; agentBusyMs: number; active: Interval[] } {
+  const active = mergeIntervals(sessions.flatMap((s) => activeIntervals(s.activity.timestamps, idleThresholdMs)));
+  const busy = sessions.flatMap((s) =>
+    s.activity.busy.length > 0 ? s.activity.busy : activeIntervals(s.activity.timestamps, idleThresholdMs),
+  );
+  return {
+    activeMs: intervalsMs(active),
+    agentBusyMs: intervalsMs(busy),
+    active,
+  };
+}
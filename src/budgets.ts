@@ -0,0 +1,82 @@
+import { daysInMonth, eachDate, monthToDate, weekToDate, type DateRange } from './dates.js';
+import { matchesProject } from './filters.js';
+import type { Budget, BudgetPeriod, BudgetStatus, Session, ToolName } from './types.js';
+
+const PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Parse a budget as stored in config: "<period> <usd>", optionally followed
+ * by "tool <name>" or "project <name, path or glob>".
+ * e.g. "monthly 200", "weekly 40 tool cursor", "daily 10 project ~/work/api"
+ */
+export function parseBudget(spec: string): Budget {
+  const [period, amount, scope, ...rest] = spec.trim().split(/\s+/);
+  if (!PERIODS.includes(period as BudgetPeriod)) {
+    throw new Error(`"${spec}" must start with ${PERIODS.join(', ')}`);
+  }
+  const limitUsd = Number(amount?.replace(/^\$/, ''));
+  if (!amount || !Number.isFinite(limitUsd) || limitUsd <= 0) {
+    throw new Error(`"${spec}" needs a positive amount in USD after the period`);
+  }
+
+  const budget: Budget = { period: period as BudgetPeriod, limitUsd, tool: null, project: null };
+  const target = rest.join(' ');
+  if (scope === undefined) return budget;
+  if (scope === 'tool' && target) budget.tool = target as ToolName;
+  else if (scope === 'project' && target) budget.project = target;
+  else throw new Error(`"${spec}": after the amount, expected "tool <name>" or "project <name>"`);
+  return budget;
+}
+
+export function describeBudget(budget: Budget): string {
+  const scope = budget.tool ? `tool ${budget.tool}` : budget.project ? `project ${budget.project}` : 'all';
+  return `${budget.period} · ${scope}`;
+}
+
+/** The part of a budget's period up to and including `date` */
+export function budgetRange(date: string, period: BudgetPeriod): DateRange {
+  if (period === 'daily') return { from: date, to: date };
+  if (period === 'weekly') return weekToDate(date);
+  return monthToDate(date);
+}
+
+/**
+ * Check each budget against the sessions of the days in its period so far.
+ * `sessionsByDay` must cover every day from the earliest period start to `date`.
+ * Weekly and monthly budgets project the period's total from the daily run rate.
+ */
+export function evaluateBudgets(
+  date: string,
+  budgets: Budget[],
+  sessionsByDay: Map<string, Session[]>,
+): BudgetStatus[] {
+  return budgets.map((budget) => {
+    const range = budgetRange(date, budget.period);
+    const days = eachDate(range);
+    const spentUsd = days
+      .flatMap((day) => sessionsByDay.get(day) ?? [])
+      .filter((s) => inScope(s, budget))
+      .reduce((sum, s) => sum + s.costUsd, 0);
+
+    const periodDays = budget.period === 'weekly' ? 7 : budget.period === 'monthly' ? daysInMonth(date) : null;
+    return {
+      budget,
+      ...range,
+      spentUsd,
+      projectedUsd: periodDays ? (spentUsd / days.length) * periodDays : null,
+      over: spentUsd > budget.limitUsd,
+    };
+  });
+}
+
+/** Earliest day any budget's period reaches back to */
+export function budgetsStart(date: string, budgets: Budget[]): string | null {
+  const starts = budgets.map((b) => budgetRange(date, b.period).from).sort();
+  return starts[0] ?? null;
+}
+
+function inScope(session: Session, budget: Budget): boolean {
+  if (budget.tool && session.tool !== budget.tool) return false;
+  if (budget.project && !matchesProject(session, budget.project)) return false;
+  return true;
+}
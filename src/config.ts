@@ -1,11 +1,52 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
-import type { DevDayConfig, ToolName } from './types.js';
+import { isValidTimeZone, parseDayStartHour } from './dates.js';
+import { DEFAULT_IDLE_THRESHOLD_MS } from './activity.js';
+import { parseBudget } from './budgets.js';
+import type { DevDayConfig, LocalLlmConfig, OutputFormat, SmtpConfig, SmtpSecurity, ToolName } from './types.js';
 
 const CONFIG_DIR = join(homedir(), '.config', 'devday');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
 
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+export const TOOL_NAMES: ToolName[] = ['opencode', 'claude-code', 'cursor', 'codex', 'aider', 'gemini-cli'];
+const SUMMARIZERS: DevDayConfig['preferredSummarizer'][] = ['concentrate', 'anthropic', 'openai', 'local', 'none'];
+const OUTPUT_FORMATS: OutputFormat[] = ['terminal', 'json', 'markdown', 'html'];
+const SMTP_SECURITY: SmtpSecurity[] = ['starttls', 'tls', 'none'];
+const SMTP_DEFAULT_PORTS: Record<SmtpSecurity, number> = { starttls: 587, tls: 465, none: 25 };
+const DEFAULT_DIGEST_SUBJECT = 'devday digest: {from} to {to}';
+
+type ToolPaths = DevDayConfig['paths'];
+
+/**
+ * Shape of ~/.config/devday/config.json. Everything is optional and
+ * nothing secret lives here — API keys only ever come from env vars.
+ */
+export interface SavedConfig {
+  gitAuthorFilter?: string;
+  author?: { name?: string; email?: string };
+  enabledTools?: ToolName[];
+  aiderSearchRoots?: string[];
+  redactPatterns?: string[];
+  excludedProjects?: string[];
+  preferredSummarizer?: DevDayConfig['preferredSummarizer'];
+  summarizerModel?: string;
+  defaultFormat?: OutputFormat;
+  timeZone?: string;
+  dayStart?: string;
+  idleThresholdMinutes?: number;
+  slackWebhookUrl?: string;
+  digest?: { from?: string; to?: string[]; cc?: string[]; subject?: string };
+  smtp?: { host?: string; port?: number; security?: SmtpSecurity; user?: string };
+  budgets?: string[];
+  subscriptions?: { [K in ToolName]?: number };
+  includedUsage?: { [K in ToolName]?: number };
+  localLlm?: { baseUrl?: string; model?: string };
+  paths?: { [K in keyof ToolPaths]?: string };
+}
+
 function getDefaultPaths() {
   const home = homedir();
   const platform = process.platform;
@@ -14,6 +55,8 @@ function getDefaultPaths() {
     opencodeStorage: join(home, '.local', 'share', 'opencode', 'storage'),
     claudeCodeHome: join(home, '.claude'),
     codexHome: process.env.CODEX_HOME ?? join(home, '.codex'),
+    geminiHome: process.env.GEMINI_CLI_HOME ?? join(home, '.gemini'),
+    aiderHome: join(home, '.aider'), // caches/analytics only — chat history lives in each repo
     cursorStateDb: platform === 'darwin'
       ? join(home, 'Library', 'Application Support', 'Cursor', 'User', 'globalStorage', 'state.vscdb')
       : platform === 'win32'
@@ -22,25 +65,32 @@ function getDefaultPaths() {
   };
 }
 
-function detectAvailableTools(): ToolName[] {
-  const paths = getDefaultPaths();
+export function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+function detectAvailableTools(paths: ReturnType<typeof getDefaultPaths>): ToolName[] {
   const tools: ToolName[] = [];
 
   if (existsSync(paths.opencodeStorage)) tools.push('opencode');
   if (existsSync(paths.claudeCodeHome)) tools.push('claude-code');
   if (existsSync(paths.cursorStateDb)) tools.push('cursor');
   if (existsSync(paths.codexHome)) tools.push('codex');
+  if (existsSync(join(paths.geminiHome, 'tmp'))) tools.push('gemini-cli');
+  if (existsSync(paths.aiderHome)) tools.push('aider');
 
   return tools;
 }
 
 /**
  * Load config purely from environment variables + auto-detection.
- * API keys come from env vars only (CONCENTRATE_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY).
+ * API keys come from env vars only (CONCENTRATE_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY,
+ * DEVDAY_LLM_API_KEY). A local endpoint comes from DEVDAY_LLM_BASE_URL or the config file.
  * Tool paths are auto-detected. Non-sensitive preferences can be saved to config file.
  */
 export function loadConfig(): DevDayConfig {
-  const paths = getDefaultPaths();
+  const saved = readSavedConfig();
+  const paths = getToolPaths(saved);
 
   const concentrateKey = process.env.CONCENTRATE_API_KEY ?? null;
   const anthropicKey = process.env.ANTHROPIC_API_KEY ?? null;
@@ -48,17 +98,40 @@ export function loadConfig(): DevDayConfig {
   const linearMcpServerUrl = process.env.LINEAR_MCP_SERVER_URL ?? null;
   const linearMcpAuthToken = process.env.LINEAR_MCP_AUTH_TOKEN ?? process.env.LINEAR_API_KEY ?? null;
 
-  // Use whichever API key is available: Concentrate, OpenAI, or Anthropic
-  let preferredSummarizer: 'concentrate' | 'anthropic' | 'openai' | 'none' = 'none';
-  if (concentrateKey) preferredSummarizer = 'concentrate';
+  const localBaseUrl = process.env.DEVDAY_LLM_BASE_URL ?? saved.localLlm?.baseUrl;
+  const localLlm: LocalLlmConfig | null = localBaseUrl
+    ? {
+        baseUrl: localBaseUrl,
+        model: process.env.DEVDAY_LLM_MODEL ?? saved.localLlm?.model ?? DEFAULT_LOCAL_MODEL,
+        apiKey: process.env.DEVDAY_LLM_API_KEY ?? null,
+      }
+    : null;
+
+  const available: Record<DevDayConfig['preferredSummarizer'], boolean> = {
+    local: !!localLlm,
+    concentrate: !!concentrateKey,
+    openai: !!openaiKey,
+    anthropic: !!anthropicKey,
+    none: true,
+  };
+
+  // An explicit preference wins when its key/endpoint is present. Otherwise a local
+  // endpoint wins so digests never leave the machine when one is configured, then
+  // whichever API key is available: Concentrate, OpenAI, or Anthropic
+  let preferredSummarizer: DevDayConfig['preferredSummarizer'] = 'none';
+  if (saved.preferredSummarizer && available[saved.preferredSummarizer]) preferredSummarizer = saved.preferredSummarizer;
+  else if (localLlm) preferredSummarizer = 'local';
+  else if (concentrateKey) preferredSummarizer = 'concentrate';
   else if (openaiKey) preferredSummarizer = 'openai';
   else if (anthropicKey) preferredSummarizer = 'anthropic';
 
-  const defaults: DevDayConfig = {
+  const config: DevDayConfig = {
     concentrateApiKey: concentrateKey,
     anthropicApiKey: anthropicKey,
     openaiApiKey: openaiKey,
     preferredSummarizer,
+    summarizerModel: saved.summarizerModel ?? null,
+    localLlm,
     linearMcpServerUrl,
     linearMcpAuthToken,
     paths: {
@@ -66,41 +139,363 @@ export function loadConfig(): DevDayConfig {
       claudeCodeHome: existsSync(paths.claudeCodeHome) ? paths.claudeCodeHome : null,
       cursorStateDb: existsSync(paths.cursorStateDb) ? paths.cursorStateDb : null,
       codexHome: existsSync(paths.codexHome) ? paths.codexHome : null,
+      geminiHome: existsSync(join(paths.geminiHome, 'tmp')) ? paths.geminiHome : null,
+    },
+    aiderSearchRoots: (saved.aiderSearchRoots ?? []).map(expandHome),
+    enabledTools: detectAvailableTools(paths),
+    redactPatterns: saved.redactPatterns ?? [],
+    excludedProjects: (saved.excludedProjects ?? []).map(expandHome),
+    defaultFormat: saved.defaultFormat ?? 'terminal',
+    timeZone: saved.timeZone ?? null,
+    dayStartHour: saved.dayStart ? parseDayStartHour(saved.dayStart) ?? 0 : 0,
+    idleThresholdMs: saved.idleThresholdMinutes ? saved.idleThresholdMinutes * 60_000 : DEFAULT_IDLE_THRESHOLD_MS,
+    gitAuthorFilter: saved.gitAuthorFilter ?? null,
+    author: saved.author?.name || saved.author?.email
+      ? { name: saved.author.name ?? null, email: saved.author.email ?? null }
+      : null,
+    slackWebhookUrl: process.env.DEVDAY_SLACK_WEBHOOK_URL ?? saved.slackWebhookUrl ?? null,
+    digest: {
+      from: saved.digest?.from ?? null,
+      to: saved.digest?.to ?? [],
+      cc: saved.digest?.cc ?? [],
+      subject: saved.digest?.subject ?? DEFAULT_DIGEST_SUBJECT,
     },
-    enabledTools: detectAvailableTools(),
-    gitAuthorFilter: null,
+    smtp: resolveSmtp(saved),
+    budgets: (saved.budgets ?? []).map(parseBudget),
+    plans: resolvePlans(saved),
   };
 
-  // Merge non-sensitive preferences from config file (gitAuthorFilter, etc.)
-  if (existsSync(CONFIG_FILE)) {
-    try {
-      const raw = readFileSync(CONFIG_FILE, 'utf-8');
-      const saved = JSON.parse(raw) as Partial<DevDayConfig>;
+  // Configuring aider search roots is an explicit opt-in, even without ~/.aider
+  if (config.aiderSearchRoots.length > 0 && !config.enabledTools.includes('aider')) {
+    config.enabledTools.push('aider');
+  }
+  if (saved.enabledTools) config.enabledTools = saved.enabledTools;
+
+  return config;
+}
 
-      // Only merge non-sensitive fields — never read keys from file
-      if (saved.gitAuthorFilter) defaults.gitAuthorFilter = saved.gitAuthorFilter;
-      if (saved.enabledTools) defaults.enabledTools = saved.enabledTools;
+/** A plan for each tool with a saved seat price */
+function resolvePlans(saved: SavedConfig): DevDayConfig['plans'] {
+  const plans: DevDayConfig['plans'] = {};
+  for (const tool of TOOL_NAMES) {
+    const monthlyUsd = saved.subscriptions?.[tool];
+    if (monthlyUsd === undefined) continue;
+    plans[tool] = { monthlyUsd, includedUsd: saved.includedUsage?.[tool] ?? null };
+  }
+  return plans;
+}
+
+/** The SMTP server for `devday digest --send`; the port follows the security mode unless set */
+function resolveSmtp(saved: SavedConfig): SmtpConfig | null {
+  if (!saved.smtp?.host) return null;
+  const security = saved.smtp.security ?? 'starttls';
+  return {
+    host: saved.smtp.host,
+    port: saved.smtp.port ?? SMTP_DEFAULT_PORTS[security],
+    security,
+    user: saved.smtp.user ?? null,
+    password: process.env.DEVDAY_SMTP_PASSWORD ?? null,
+  };
+}
+
+/**
+ * Where each tool's data is expected, whether or not it exists: platform defaults
+ * with saved `paths.*` overrides applied. Detection and `devday doctor` start here.
+ */
+export function getToolPaths(saved: SavedConfig = readSavedConfig()): ReturnType<typeof getDefaultPaths> {
+  const paths = getDefaultPaths();
+  for (const [key, value] of Object.entries(saved.paths ?? {})) {
+    if (value) paths[key as keyof ToolPaths] = expandHome(value);
+  }
+  return paths;
+}
+
+/**
+ * Read the saved preferences file. Unknown keys are dropped and a missing
+ * or corrupt file reads as empty — never read keys from file.
+ */
+export function readSavedConfig(): SavedConfig {
+  if (!existsSync(CONFIG_FILE)) return {};
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(readFileSync(CONFIG_FILE, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return {}; // Ignore corrupt config
+  }
+
+  const saved: SavedConfig = {};
+  for (const key of Object.keys(CONFIG_KEYS)) {
+    const value = getPath(raw, key);
+    if (value === undefined || value === null) continue;
+    try {
+      CONFIG_KEYS[key].check(value);
+      setPath(saved as Record<string, unknown>, key, value);
     } catch {
-      // Ignore corrupt config
+      // Skip values that no longer validate rather than failing every run
     }
   }
-
-  return defaults;
+  return saved;
 }
 
 /**
- * Save non-sensitive preferences to config file.
- * API keys are NEVER written to disk.
+ * The preferences file exactly as saved, unknown keys and hand edits included,
+ * so `devday config set` / `unset` only change the key they're given.
+ * Throws instead of returning something that would overwrite a corrupt file.
  */
-export function saveConfig(config: DevDayConfig): void {
+function readConfigFile(): Record<string, unknown> {
+  if (!existsSync(CONFIG_FILE)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(CONFIG_FILE, 'utf-8'));
+  } catch (err) {
+    throw new Error(`${CONFIG_FILE} is not valid JSON (${err instanceof Error ? err.message : err}). Fix or delete it, then try again`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${CONFIG_FILE} should hold a JSON object. Fix or delete it, then try again`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+function writeConfigFile(raw: Record<string, unknown>): void {
   mkdirSync(CONFIG_DIR, { recursive: true });
-  const safe = {
-    gitAuthorFilter: config.gitAuthorFilter,
-    enabledTools: config.enabledTools,
-  };
-  writeFileSync(CONFIG_FILE, JSON.stringify(safe, null, 2), 'utf-8');
+  writeFileSync(CONFIG_FILE, JSON.stringify(raw, null, 2) + '\n', 'utf-8');
 }
 
 export function getConfigPath(): string {
   return CONFIG_FILE;
 }
+
+export function getConfigDir(): string {
+  return CONFIG_DIR;
+}
+
+// ── `devday config` keys ─────────────────────────────────────────
+
+interface ConfigKeySpec {
+  description: string;
+  list?: boolean;
+  /** Turn CLI arguments into the stored value, throwing on invalid input */
+  parse: (args: string[]) => unknown;
+  /** Validate a value read back from the file */
+  check: (value: unknown) => void;
+}
+
+function stringKey(description: string, validate?: (value: string) => void): ConfigKeySpec {
+  const check = (value: unknown) => {
+    if (typeof value !== 'string' || value.length === 0) throw new Error('expected a non-empty string');
+    validate?.(value);
+  };
+  return {
+    description,
+    parse: (args) => {
+      if (args.length !== 1) throw new Error('expected exactly one value');
+      check(args[0]);
+      return args[0];
+    },
+    check,
+  };
+}
+
+function numberKey(description: string, validate?: (value: number) => void): ConfigKeySpec {
+  const check = (value: unknown) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error('expected a number');
+    validate?.(value);
+  };
+  return {
+    description,
+    parse: (args) => {
+      if (args.length !== 1) throw new Error('expected exactly one value');
+      const value = Number(args[0]);
+      if (args[0].trim() === '' || Number.isNaN(value)) throw new Error(`"${args[0]}" is not a number`);
+      check(value);
+      return value;
+    },
+    check,
+  };
+}
+
+function listKey(description: string, validate?: (item: string) => void): ConfigKeySpec {
+  const check = (value: unknown) => {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      throw new Error('expected a list of strings');
+    }
+    for (const item of value as string[]) validate?.(item);
+  };
+  return {
+    description,
+    list: true,
+    parse: (args) => {
+      check(args);
+      return args;
+    },
+    check,
+  };
+}
+
+function oneOf<T extends string>(allowed: readonly T[]) {
+  return (value: string) => {
+    if (!allowed.includes(value as T)) throw new Error(`"${value}" is not one of: ${allowed.join(', ')}`);
+  };
+}
+
+function validRegex(value: string): void {
+  try {
+    new RegExp(value);
+  } catch (err) {
+    throw new Error(`invalid regex /${value}/: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function validTimeZone(value: string): void {
+  if (!isValidTimeZone(value)) throw new Error(`"${value}" is not an IANA time zone (e.g. Europe/Berlin)`);
+}
+
+function validDayStart(value: string): void {
+  if (parseDayStartHour(value) === null) throw new Error(`"${value}" is not an hour 0-23 (e.g. 4 or 04:00)`);
+}
+
+function positive(value: number): void {
+  if (value <= 0) throw new Error(`${value} must be greater than 0`);
+}
+
+function nonNegative(value: number): void {
+  if (value < 0) throw new Error(`${value} must not be negative`);
+}
+
+function validBudget(value: string): void {
+  const budget = parseBudget(value);
+  if (budget.tool && !TOOL_NAMES.includes(budget.tool)) {
+    throw new Error(`"${budget.tool}" is not one of: ${TOOL_NAMES.join(', ')}`);
+  }
+}
+
+function validEmail(value: string): void {
+  if (!/^[^\s@<>]+@[^\s@<>]+$/.test(value)) throw new Error(`"${value}" is not an email address`);
+}
+
+function validPort(value: number): void {
+  if (!Number.isInteger(value) || value < 1 || value > 65535) throw new Error(`${value} is not a port number`);
+}
+
+function validUrl(value: string): void {
+  if (!/^https?:\/\/\S+$/.test(value)) throw new Error(`"${value}" is not an http(s) URL`);
+}
+
+/**
+ * Every key `devday config` can read or write, in dotted form.
+ * Anything not listed here (API keys included) is rejected.
+ */
+export const CONFIG_KEYS: Record<string, ConfigKeySpec> = {
+  gitAuthorFilter: stringKey('only count commits whose author matches this name/email'),
+  'author.name': stringKey('your name on exported recaps, for devday team merge (default: git user.name)'),
+  'author.email': stringKey('your email on exported recaps (default: git user.email)', validEmail),
+  enabledTools: listKey('tools to scan (default: auto-detected)', oneOf(TOOL_NAMES)),
+  excludedProjects: listKey('project names, paths or globs to leave out of every recap'),
+  preferredSummarizer: stringKey('summarizer to use when several are available', oneOf(SUMMARIZERS)),
+  summarizerModel: stringKey('override the model used by the preferred summarizer'),
+  defaultFormat: stringKey('output format when --format is not given', oneOf(OUTPUT_FORMATS)),
+  timeZone: stringKey('time zone that decides which day work belongs to (default: the machine\'s)', validTimeZone),
+  dayStart: stringKey('hour a recap day starts at, e.g. 04:00 for night owls (default: 00:00)', validDayStart),
+  idleThresholdMinutes: numberKey('gap between events that counts as a break, for active time (default: 5)', positive),
+  slackWebhookUrl: stringKey('Slack incoming webhook for --post slack', validUrl),
+  'digest.from': stringKey('sender address for devday digest', validEmail),
+  'digest.to': listKey('recipients of devday digest', validEmail),
+  'digest.cc': listKey('cc recipients of devday digest', validEmail),
+  'digest.subject': stringKey('digest subject; {from} and {to} become the dates (default: "devday digest: {from} to {to}")'),
+  'smtp.host': stringKey('SMTP server for devday digest --send'),
+  'smtp.port': numberKey('SMTP port (default: 587, 465 with security tls, 25 with none)', validPort),
+  'smtp.security': stringKey('starttls, tls (implicit, port 465) or none (local test servers only)', oneOf(SMTP_SECURITY)),
+  'smtp.user': stringKey('SMTP login; the password comes from DEVDAY_SMTP_PASSWORD'),
+  budgets: listKey('spending limits, e.g. "monthly 200", "weekly 40 tool cursor", "daily 10 project api"', validBudget),
+  ...Object.fromEntries(TOOL_NAMES.flatMap((tool) => [
+    [`subscriptions.${tool}`, numberKey(`monthly seat price in USD if ${tool} is on a flat-rate plan`, nonNegative)],
+    [`includedUsage.${tool}`, numberKey(`API-priced usage in USD the ${tool} plan includes before overage`, nonNegative)],
+  ])),
+  'localLlm.baseUrl': stringKey('OpenAI-compatible endpoint for local summaries', validUrl),
+  'localLlm.model': stringKey('model name for the local endpoint'),
+  aiderSearchRoots: listKey('extra directories to search for aider history'),
+  redactPatterns: listKey('extra regexes to redact from session text', validRegex),
+  'paths.opencodeStorage': stringKey('opencode storage directory'),
+  'paths.claudeCodeHome': stringKey('claude code home directory'),
+  'paths.cursorStateDb': stringKey('cursor state.vscdb file'),
+  'paths.codexHome': stringKey('codex home directory'),
+  'paths.geminiHome': stringKey('gemini cli home directory'),
+};
+
+function requireKey(key: string): ConfigKeySpec {
+  const spec = CONFIG_KEYS[key];
+  if (spec) return spec;
+  if (/key|token|secret|password/i.test(key)) {
+    throw new Error(`"${key}" cannot be stored — API keys, tokens and passwords are read from environment variables only`);
+  }
+  throw new Error(`unknown config key "${key}". Run \`devday config list\` to see all keys`);
+}
+
+export function getConfigValue(key: string): unknown {
+  requireKey(key);
+  return getPath(readSavedConfig() as Record<string, unknown>, key);
+}
+
+/**
+ * Validate and persist a value. List keys take one argument per item.
+ * Returns the stored value.
+ */
+export function setConfigValue(key: string, args: string[]): unknown {
+  const spec = requireKey(key);
+  let value: unknown;
+  try {
+    value = spec.parse(args);
+  } catch (err) {
+    throw new Error(`invalid value for ${key}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const raw = readConfigFile();
+  setPath(raw, key, value);
+  writeConfigFile(raw);
+  return value;
+}
+
+/** Remove a saved value. Returns false if it wasn't set. */
+export function unsetConfigValue(key: string): boolean {
+  requireKey(key);
+  const raw = readConfigFile();
+  if (getPath(raw, key) === undefined) return false;
+
+  const [head, tail] = splitKey(key);
+  if (tail) {
+    const parent = raw[head] as Record<string, unknown>;
+    delete parent[tail];
+    if (Object.keys(parent).length === 0) delete raw[head];
+  } else {
+    delete raw[head];
+  }
+  writeConfigFile(raw);
+  return true;
+}
+
+// ── Dotted-key helpers (one level of nesting: paths.*, localLlm.*, subscriptions.*, smtp.*) ──
+
+function splitKey(key: string): [string, string | undefined] {
+  const dot = key.indexOf('.');
+  return dot === -1 ? [key, undefined] : [key.slice(0, dot), key.slice(dot + 1)];
+}
+
+function getPath(obj: Record<string, unknown>, key: string): unknown {
+  const [head, tail] = splitKey(key);
+  const value = obj[head];
+  if (!tail) return value;
+  return value && typeof value === 'object' ? (value as Record<string, unknown>)[tail] : undefined;
+}
+
+function setPath(obj: Record<string, unknown>, key: string, value: unknown): void {
+  const [head, tail] = splitKey(key);
+  if (!tail) {
+    obj[head] = value;
+    return;
+  }
+  const parent = obj[head] && typeof obj[head] === 'object' ? obj[head] as Record<string, unknown> : {};
+  parent[tail] = value;
+  obj[head] = parent;
+}
@@ -1,38 +1,106 @@
-import { MODEL_PRICING, type TokenUsage, type ModelPricing } from './types.js';
+import type { CostSource, TokenUsage, ModelPricing, ModelUsage } from './types.js';
+import { dateOf } from './dates.js';
+import { findPricing } from './pricing.js';
 
-/**
- * Estimate cost in USD from token usage and model name.
- * Falls back to a generic mid-tier pricing if model is unknown.
- */
-export function estimateCost(model: string, tokens: TokenUsage): number {
-  const pricing = findPricing(model);
+/** What an unknown model is priced at, so its cost is at least in the right ballpark */
+const FALLBACK_PRICING: ModelPricing = { inputPerMillion: 3, outputPerMillion: 15 };
 
-  const inputCost = (tokens.input / 1_000_000) * pricing.inputPerMillion;
-  const outputCost = (tokens.output / 1_000_000) * pricing.outputPerMillion;
-  const cacheReadCost = (tokens.cacheRead / 1_000_000) * (pricing.cacheReadPerMillion ?? pricing.inputPerMillion * 0.1);
-  const cacheWriteCost = (tokens.cacheWrite / 1_000_000) * (pricing.cacheWritePerMillion ?? pricing.inputPerMillion * 1.25);
+export interface CostEstimate {
+  costUsd: number;
+  source: CostSource;
+}
 
-  return inputCost + outputCost + cacheReadCost + cacheWriteCost;
+/**
+ * Estimate cost in USD from token usage and model name, at the price in
+ * force on the day of `atMs`. Unknown models fall back to generic mid-tier
+ * pricing and are marked `guessed`.
+ */
+export function estimateCost(model: string, tokens: TokenUsage, atMs: number): CostEstimate {
+  const pricing = findPricing(model, dateOf(atMs));
+  return {
+    costUsd: priceTokens(pricing ?? FALLBACK_PRICING, tokens),
+    source: pricing ? 'computed' : 'guessed',
+  };
 }
 
 /**
- * Find pricing for a model, trying exact match first, then prefix/substring match.
+ * Cost of a session the tool didn't report a cost for, priced at its first
+ * model. Token usage with no model to price it at counts as guessed.
  */
-function findPricing(model: string): ModelPricing {
-  const normalized = model.toLowerCase();
+export function estimateSessionCost(models: string[], tokens: TokenUsage, atMs: number): CostEstimate {
+  if (tokens.total === 0) return { costUsd: 0, source: 'computed' };
+  if (models.length === 0) return { costUsd: 0, source: 'guessed' };
+  return estimateCost(models[0], tokens, atMs);
+}
 
-  // Exact match
-  if (MODEL_PRICING[normalized]) return MODEL_PRICING[normalized];
+/**
+ * Cost of a session the tool didn't report a cost for, pricing each model's
+ * tokens at that model's rate and filling in the entries' costUsd. Tokens
+ * no model accounts for are priced as estimateSessionCost would.
+ */
+export function estimateModelUsageCost(
+  modelUsage: Record<string, ModelUsage>,
+  tokens: TokenUsage,
+  atMs: number,
+): CostEstimate {
+  const entries = Object.entries(modelUsage);
+  const attributed = sumTokens(...entries.map(([, usage]) => usage.tokens));
+  const rest = estimateSessionCost(
+    entries.map(([model]) => model),
+    subtractTokens(tokens, attributed),
+    atMs,
+  );
 
-  // Prefix / substring match
-  for (const [key, pricing] of Object.entries(MODEL_PRICING)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return pricing;
-    }
+  let costUsd = rest.costUsd;
+  const sources: CostSource[] = [rest.source];
+  for (const [model, usage] of entries) {
+    const cost = usage.tokens.total > 0 ? estimateCost(model, usage.tokens, atMs) : { costUsd: 0, source: 'computed' as const };
+    usage.costUsd = cost.costUsd;
+    costUsd += cost.costUsd;
+    sources.push(cost.source);
   }
+  return { costUsd, source: combineCostSources(...sources) };
+}
 
-  // Heuristic fallback: mid-tier pricing
-  return { inputPerMillion: 3, outputPerMillion: 15 };
+/** Add one message's tokens and cost to its model's totals */
+export function addModelUsage(
+  modelUsage: Record<string, ModelUsage>,
+  model: string,
+  tokens: TokenUsage,
+  costUsd = 0,
+): void {
+  const current = modelUsage[model] ?? { tokens: emptyTokenUsage(), costUsd: 0, messageCount: 0 };
+  modelUsage[model] = {
+    tokens: sumTokens(current.tokens, tokens),
+    costUsd: current.costUsd + costUsd,
+    messageCount: current.messageCount + 1,
+  };
+}
+
+/** The least certain of several sources: one guessed message makes the total a guess. */
+export function combineCostSources(...sources: CostSource[]): CostSource {
+  if (sources.includes('guessed')) return 'guessed';
+  if (sources.includes('computed')) return 'computed';
+  return 'reported';
+}
+
+/**
+ * What caching saved: cache reads priced as fresh input, minus what they
+ * cost as cache reads. Unknown models use the same fallback as estimateCost.
+ */
+export function cacheSavings(model: string, tokens: TokenUsage, atMs: number): number {
+  const pricing = findPricing(model, dateOf(atMs)) ?? FALLBACK_PRICING;
+  const readPrice = pricing.cacheReadPerMillion ?? pricing.inputPerMillion * 0.1;
+  return (tokens.cacheRead / 1_000_000) * (pricing.inputPerMillion - readPrice);
+}
+
+function priceTokens(pricing: ModelPricing, tokens: TokenUsage): number {
+  const inputCost = (tokens.input / 1_000_000) * pricing.inputPerMillion;
+  const outputCost = (tokens.output / 1_000_000) * pricing.outputPerMillion;
+  const cacheReadCost = (tokens.cacheRead / 1_000_000) * (pricing.cacheReadPerMillion ?? pricing.inputPerMillion * 0.1);
+  const cacheWriteCost = (tokens.cacheWrite / 1_000_000) * (pricing.cacheWritePerMillion ?? pricing.inputPerMillion * 1.25);
+
+  return inputCost + outputCost + cacheReadCost + cacheWriteCost;
 }
 
 /**
@@ -52,6 +120,17 @@ export function sumTokens(...usages: TokenUsage[]): TokenUsage {
   );
 }
 
+function subtractTokens(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input: Math.max(0, a.input - b.input),
+    output: Math.max(0, a.output - b.output),
+    reasoning: Math.max(0, a.reasoning - b.reasoning),
+    cacheRead: Math.max(0, a.cacheRead - b.cacheRead),
+    cacheWrite: Math.max(0, a.cacheWrite - b.cacheWrite),
+    total: Math.max(0, a.total - b.total),
+  };
+}
+
 export function emptyTokenUsage(): TokenUsage {
   return { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 };
 }
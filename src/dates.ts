@@ -0,0 +1,230 @@
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  getDaysInMonth,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+/** Inclusive range of local calendar days, both ends as YYYY-MM-DD. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/** Instants covered by one recap day, both ends inclusive, in epoch ms. */
+export interface DayWindow {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Where one recap day ends and the next begins: an IANA time zone (null for
+ * the machine's) and the hour the day starts at, so 02:00 work can count as
+ * the previous day for night owls.
+ */
+export interface DayBoundary {
+  timeZone: string | null;
+  dayStartHour: number;
+}
+
+let boundary: DayBoundary = { timeZone: null, dayStartHour: 0 };
+
+/** Set once at startup from --tz / --day-start / config; every date helper follows it. */
+export function setDayBoundary(next: DayBoundary): void {
+  boundary = next;
+}
+
+export function getDayBoundary(): DayBoundary {
+  return boundary;
+}
+
+/** Short label for the boundary, or null when it's the default local midnight. */
+export function describeDayBoundary(): string | null {
+  const parts: string[] = [];
+  if (boundary.timeZone) parts.push(boundary.timeZone);
+  if (boundary.dayStartHour !== 0) parts.push(`day starts ${String(boundary.dayStartHour).padStart(2, '0')}:00`);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * The instant range a recap day covers: from dayStartHour on `date` to just
+ * before dayStartHour on the next day, in the configured time zone.
+ * Every parser, the git query and the history index use this.
+ */
+export function dayWindow(date: string): DayWindow {
+  const startMs = wallClockToMs(date, boundary.dayStartHour);
+  const endMs = wallClockToMs(shiftDate(date, 1), boundary.dayStartHour) - 1;
+  return { startMs, endMs };
+}
+
+/** The recap day an instant belongs to. */
+export function dateOf(ms: number): string {
+  const calendarDate = boundary.timeZone
+    // en-CA formats as YYYY-MM-DD
+    ? new Intl.DateTimeFormat('en-CA', { timeZone: boundary.timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(ms))
+    : format(new Date(ms), 'yyyy-MM-dd');
+  // Before the day-start hour still counts as the previous day
+  return ms < dayWindow(calendarDate).startMs ? shiftDate(calendarDate, -1) : calendarDate;
+}
+
+/** HH:mm wall-clock time of an instant in the configured time zone. */
+export function clockTime(ms: number): string {
+  if (!boundary.timeZone) return format(new Date(ms), 'HH:mm');
+  return new Intl.DateTimeFormat('en-GB', { timeZone: boundary.timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(new Date(ms));
+}
+
+/** Calendar arithmetic on YYYY-MM-DD strings. */
+export function shiftDate(date: string, days: number): string {
+  return formatDate(addDays(parseDate(date), days));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Parse "4", "04" or "04:00" into an hour 0-23, or null. */
+export function parseDayStartHour(input: string): number | null {
+  const match = /^(\d{1,2})(?::00)?$/.exec(input.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  return hour >= 0 && hour <= 23 ? hour : null;
+}
+
+export function today(): string {
+  return dateOf(Date.now());
+}
+
+/**
+ * Resolve date string: supports YYYY-MM-DD, "today", "yesterday"
+ */
+export function resolveDate(input: string | undefined): string {
+  if (!input) return today();
+  const lower = input.toLowerCase();
+  if (lower === 'today') return today();
+  if (lower === 'yesterday') return shiftDate(today(), -1);
+  return input;
+}
+
+export function isValidDate(date: string): boolean {
+  return DATE_RE.test(date) && isValid(parseDate(date));
+}
+
+/**
+ * Monday-to-Sunday week containing the given date.
+ * The current week is clamped to today so we never scan the future;
+ * a week that hasn't started yet throws.
+ */
+export function weekRange(input?: string): DateRange {
+  const ref = parseDate(resolveDate(input));
+  const from = startOfWeek(ref, { weekStartsOn: 1 });
+  const to = endOfWeek(ref, { weekStartsOn: 1 });
+  return clampToToday({ from: formatDate(from), to: formatDate(to) });
+}
+
+/**
+ * Calendar month given as YYYY-MM (default: current month), clamped to today.
+ * Throws for a month that hasn't started yet.
+ */
+export function monthRange(input?: string): DateRange {
+  let ref: Date;
+  if (!input) {
+    ref = parseDate(today());
+  } else if (MONTH_RE.test(input)) {
+    ref = parse(`${input}-01`, 'yyyy-MM-dd', new Date());
+  } else {
+    ref = parseDate(resolveDate(input));
+  }
+  return clampToToday({ from: formatDate(startOfMonth(ref)), to: formatDate(endOfMonth(ref)) });
+}
+
+/** From the Monday of the date's week up to and including the date */
+export function weekToDate(date: string): DateRange {
+  return { from: formatDate(startOfWeek(parseDate(date), { weekStartsOn: 1 })), to: date };
+}
+
+/** From the first of the date's month up to and including the date */
+export function monthToDate(date: string): DateRange {
+  return { from: `${date.slice(0, 7)}-01`, to: date };
+}
+
+export function daysInMonth(date: string): number {
+  return getDaysInMonth(parseDate(date));
+}
+
+/**
+ * Every YYYY-MM-DD from range.from to range.to inclusive.
+ */
+export function eachDate(range: DateRange): string[] {
+  const dates: string[] = [];
+  const end = parseDate(range.to);
+  for (let d = parseDate(range.from); d <= end; d = addDays(d, 1)) {
+    dates.push(formatDate(d));
+  }
+  return dates;
+}
+
+export function isValidMonth(input: string): boolean {
+  return MONTH_RE.test(input) && isValid(parse(`${input}-01`, 'yyyy-MM-dd', new Date()));
+}
+
+// ── Internal helpers ─────────────────────────────────────────────
+
+function parseDate(date: string): Date {
+  return parse(date, 'yyyy-MM-dd', new Date());
+}
+
+function formatDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/** Epoch ms of `hour`:00 on `date` as wall-clock time in the configured zone. */
+function wallClockToMs(date: string, hour: number): number {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!boundary.timeZone) return new Date(year, month - 1, day, hour, 0, 0, 0).getTime();
+
+  // Guess with the zone's offset at the naive UTC instant, then correct once for DST edges
+  const naive = Date.UTC(year, month - 1, day, hour);
+  let result = naive - zoneOffsetMs(boundary.timeZone, naive);
+  const corrected = zoneOffsetMs(boundary.timeZone, result);
+  if (naive - corrected !== result) result = naive - corrected;
+  return result;
+}
+
+/** How far ahead of UTC the zone's wall clock is at an instant. */
+function zoneOffsetMs(timeZone: string, ms: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(ms));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/** Cut a range off at today. Throws when none of it has happened yet. */
+function clampToToday(range: DateRange): DateRange {
+  const now = today();
+  if (range.from > now) {
+    throw new Error(`${range.from} → ${range.to} starts in the future`);
+  }
+  return range.to > now ? { from: range.from, to: now } : range;
+}
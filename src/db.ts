@@ -1,14 +1,18 @@
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore — sql.js ships no declaration file
 import initSqlJs from 'sql.js';
-import { readFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
 
 // Minimal type surface we actually use from sql.js
 interface SqlJsStatic {
-  Database: new (data: Buffer | Uint8Array) => SqlJsDb;
+  Database: new (data?: Buffer | Uint8Array) => SqlJsDb;
 }
 interface SqlJsDb {
   prepare(sql: string): SqlJsStmt;
+  run(sql: string, params?: unknown[]): SqlJsDb;
+  exec(sql: string): unknown[];
+  export(): Uint8Array;
   close(): void;
 }
 interface SqlJsStmt {
@@ -32,9 +36,9 @@ async function getSqlJs(): Promise<SqlJsStatic> {
  * the better-sqlite3 .prepare().all() call pattern.
  */
 export class ReadonlyDatabase {
-  private db: SqlJsDb;
+  protected db: SqlJsDb;
 
-  private constructor(db: SqlJsDb) {
+  protected constructor(db: SqlJsDb) {
     this.db = db;
   }
 
@@ -66,3 +70,41 @@ export class ReadonlyDatabase {
     this.db.close();
   }
 }
+
+/**
+ * Writable SQLite file backed by sql.js. sql.js works on an in-memory copy,
+ * so changes only reach disk when save() is called.
+ */
+export class WritableDatabase extends ReadonlyDatabase {
+  private filePath: string;
+
+  private constructor(db: SqlJsDb, filePath: string) {
+    super(db);
+    this.filePath = filePath;
+  }
+
+  /** Open an existing database file, or start an empty one if it doesn't exist yet. */
+  static async openOrCreate(filePath: string): Promise<WritableDatabase> {
+    const sqlJs = await getSqlJs();
+    const db = existsSync(filePath)
+      ? new sqlJs.Database(readFileSync(filePath))
+      : new sqlJs.Database();
+    return new WritableDatabase(db, filePath);
+  }
+
+  run(sql: string, ...params: unknown[]): void {
+    this.db.run(sql, params.length > 0 ? params : undefined);
+  }
+
+  exec(sql: string): void {
+    this.db.exec(sql);
+  }
+
+  /** Write the database to disk atomically (temp file + rename). */
+  save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, this.db.export());
+    renameSync(tmpPath, this.filePath);
+  }
+}
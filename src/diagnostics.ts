@@ -0,0 +1,32 @@
+import { existsSync } from 'node:fs';
+import type { ParserDiagnostics, PathCheck } from './types.js';
+
+/** Shared helpers for Parser.diagnose() implementations. */
+
+export function pathCheck(label: string, path: string): PathCheck {
+  return { label, path, exists: existsSync(path) };
+}
+
+export function emptyDiagnostics(paths: PathCheck[]): ParserDiagnostics {
+  return { paths, formats: {}, scanned: 0, skipped: 0, notes: [] };
+}
+
+export function countFormat(diag: ParserDiagnostics, format: string, count = 1): void {
+  diag.formats[format] = (diag.formats[format] ?? 0) + count;
+}
+
+/** Count lines in a JSONL file that fail to parse. Returns [parsed, malformed]. */
+export function countJsonlLines(content: string): [number, number] {
+  let parsed = 0;
+  let malformed = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      JSON.parse(line);
+      parsed++;
+    } catch {
+      malformed++;
+    }
+  }
+  return [parsed, malformed];
+}
@@ -0,0 +1,80 @@
+import { randomUUID } from 'node:crypto';
+import type { DigestConfig, RangeRecap } from './types.js';
+import { renderRangeMarkdown } from './render-markdown.js';
+import { renderRangeHtml } from './render-html.js';
+
+export interface DigestEmail {
+  subject: string;
+  /** Complete RFC 5322 message with CRLF line endings, ready to save as .eml or send */
+  message: string;
+}
+
+/**
+ * Render a range recap as a multipart/alternative email: the markdown
+ * report as the plain-text part and the self-contained HTML report as the
+ * rich part. Recipients that aren't configured are left out of the headers.
+ */
+export function buildDigestEmail(range: RangeRecap, digest: DigestConfig, now = new Date()): DigestEmail {
+  const subject = digest.subject.replaceAll('{from}', range.from).replaceAll('{to}', range.to);
+  const boundary = `devday-${randomUUID()}`;
+  const domain = digest.from?.split('@')[1] ?? 'devday.local';
+
+  const headers = [
+    ...(digest.from ? [`From: ${digest.from}`] : []),
+    ...(digest.to.length > 0 ? [`To: ${digest.to.join(', ')}`] : []),
+    ...(digest.cc.length > 0 ? [`Cc: ${digest.cc.join(', ')}`] : []),
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const lines = [
+    ...headers,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', renderRangeMarkdown(range)),
+    `--${boundary}`,
+    ...part('text/html', renderRangeHtml(range)),
+    `--${boundary}--`,
+    '',
+  ];
+  return { subject, message: lines.join('\r\n') };
+}
+
+function part(contentType: string, body: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...wrapBase64(Buffer.from(body, 'utf-8').toString('base64')),
+  ];
+}
+
+/** Base64 bodies are limited to 76 characters per line */
+function wrapBase64(encoded: string): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += 76) lines.push(encoded.slice(i, i + 76));
+  return lines;
+}
+
+/**
+ * RFC 2047 encoded-words for headers with non-ASCII text, e.g. "→" in a
+ * custom subject. Each word stays under the 75-character limit.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, 'utf-8') > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`).join('\r\n ');
+}
@@ -0,0 +1,168 @@
+import chalk from 'chalk';
+import { existsSync, readFileSync } from 'node:fs';
+import { getConfigPath, getToolPaths } from './config.js';
+import { getPricing, getPricingPath } from './pricing.js';
+import { OpenCodeParser } from './parsers/opencode.js';
+import { ClaudeCodeParser } from './parsers/claude-code.js';
+import { CursorParser } from './parsers/cursor.js';
+import { CodexParser } from './parsers/codex.js';
+import { AiderParser } from './parsers/aider.js';
+import { GeminiCliParser } from './parsers/gemini-cli.js';
+import { diagnoseGitRepo, getGitVersion } from './git.js';
+import { checkSummarizerAuth } from './summarize.js';
+import type { DevDayConfig, Parser, ParserDiagnostics } from './types.js';
+
+const OK = chalk.green('✓');
+const FAIL = chalk.red('✗');
+const WARN = chalk.yellow('!');
+
+export interface DoctorOptions {
+  /** Project roots devday has seen before (from the history index) */
+  knownProjects: string[];
+  /** Skip the network round-trips that check API keys */
+  offline?: boolean;
+}
+
+/**
+ * Print a health report: tool paths and storage formats, git per project,
+ * and whether each configured summarizer credential authenticates.
+ * Returns the number of problems found.
+ */
+export async function runDoctor(config: DevDayConfig, options: DoctorOptions): Promise<number> {
+  let problems = 0;
+  const cwd = process.cwd();
+
+  console.log('');
+  console.log(chalk.bold.cyan('  devday doctor'));
+
+  // ── Config ──────────────────────────────────────────────────────
+  heading('Config');
+  const configPath = getConfigPath();
+  if (!existsSync(configPath)) {
+    line(OK, 'config file', chalk.dim(`${configPath} (not created — using defaults)`));
+  } else {
+    try {
+      JSON.parse(readFileSync(configPath, 'utf-8'));
+      line(OK, 'config file', configPath);
+    } catch (err) {
+      problems++;
+      line(FAIL, 'config file', `${configPath}: ${err instanceof Error ? err.message : err} — saved settings are ignored`);
+    }
+  }
+
+  const pricingPath = getPricingPath();
+  if (!existsSync(pricingPath)) {
+    line(OK, 'pricing file', chalk.dim(`${pricingPath} (not created — using built-in prices)`));
+  } else {
+    const { problems: pricingProblems } = getPricing();
+    problems += pricingProblems.length;
+    line(pricingProblems.length === 0 ? OK : FAIL, 'pricing file', pricingPath);
+    for (const problem of pricingProblems) detail(`${FAIL} ${problem} — ignored`);
+  }
+
+  // ── Tools ───────────────────────────────────────────────────────
+  // Build every parser from its expected paths — even missing ones — so we can say why
+  heading('Tools');
+  const paths = getToolPaths();
+  const parsers: Parser[] = [
+    new OpenCodeParser(paths.opencodeStorage),
+    new ClaudeCodeParser(paths.claudeCodeHome),
+    new CursorParser(paths.cursorStateDb),
+    new CodexParser(paths.codexHome),
+    new GeminiCliParser(paths.geminiHome, [...options.knownProjects, cwd]),
+    new AiderParser([...config.aiderSearchRoots, ...options.knownProjects, cwd]),
+  ];
+
+  for (const parser of parsers) {
+    const enabled = config.enabledTools.includes(parser.name);
+    const available = await parser.isAvailable();
+
+    let diag: ParserDiagnostics | null = null;
+    let diagError: string | null = null;
+    try {
+      diag = await parser.diagnose();
+    } catch (err) {
+      diagError = err instanceof Error ? err.message : String(err);
+    }
+
+    const status = !enabled
+      ? chalk.dim('disabled')
+      : available ? chalk.green('available') : chalk.yellow('enabled but no data found');
+    const mark = !enabled ? chalk.dim('-') : available && !diagError ? (diag?.skipped ? WARN : OK) : FAIL;
+    if (enabled && (!available || diagError)) problems++;
+    line(mark, parser.name, status);
+
+    if (diagError) {
+      detail(`${FAIL} diagnostics failed: ${diagError}`);
+      continue;
+    }
+    if (!diag) continue;
+
+    for (const check of diag.paths) {
+      detail(`${check.exists ? OK : chalk.dim('·')} ${check.label.padEnd(26)} ${chalk.dim(check.path)}`);
+    }
+    const formats = Object.entries(diag.formats);
+    if (formats.length > 0) {
+      detail(`formats: ${formats.map(([name, count]) => `${name} ×${count}`).join(', ')}`);
+    }
+    if (diag.scanned > 0) {
+      const skipped = diag.skipped > 0 ? chalk.yellow(`${diag.skipped} skipped (parse errors)`) : '0 skipped';
+      detail(`scanned ${diag.scanned}, ${skipped}`);
+    }
+    for (const note of diag.notes) {
+      detail(`${WARN} ${note}`);
+    }
+  }
+
+  // ── Git ─────────────────────────────────────────────────────────
+  heading('Git');
+  const gitVersion = getGitVersion();
+  if (!gitVersion) {
+    problems++;
+    line(FAIL, 'git', 'not found on PATH — commits will not be included');
+  } else {
+    line(OK, 'git', gitVersion);
+    const projects = [...new Set([...options.knownProjects, cwd])].sort();
+    for (const projectPath of projects) {
+      const result = diagnoseGitRepo(projectPath);
+      line(result.ok ? OK : chalk.dim('·'), projectPath, chalk.dim(result.detail));
+    }
+  }
+
+  // ── Summarizers ─────────────────────────────────────────────────
+  heading('Summarizers');
+  if (config.preferredSummarizer === 'none') {
+    line(chalk.dim('-'), 'none configured', chalk.dim('set CONCENTRATE_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY or DEVDAY_LLM_BASE_URL'));
+  } else if (options.offline) {
+    line(chalk.dim('-'), config.preferredSummarizer, chalk.dim('preferred (not checked: --offline)'));
+  } else {
+    for (const check of await checkSummarizerAuth(config)) {
+      if (!check.ok) problems++;
+      const preferred = check.provider === config.preferredSummarizer ? chalk.dim(' (preferred)') : '';
+      line(check.ok ? OK : FAIL, check.provider, check.detail + preferred);
+    }
+  }
+
+  console.log('');
+  console.log(problems === 0
+    ? chalk.green('  No problems found.')
+    : chalk.yellow(`  ${problems} problem${problems === 1 ? '' : 's'} found.`));
+  console.log('');
+
+  return problems;
+}
+
+// ── Output helpers ───────────────────────────────────────────────
+
+function heading(title: string): void {
+  console.log('');
+  console.log(chalk.bold(`  ${title}`));
+}
+
+function line(mark: string, label: string, text: string): void {
+  console.log(`  ${mark} ${label.padEnd(14)} ${text}`);
+}
+
+function detail(text: string): void {
+  console.log(`      ${text}`);
+}
@@ -0,0 +1,96 @@
+import { resolve } from 'node:path';
+import { expandHome } from './config.js';
+import type { Session, ToolName } from './types.js';
+
+/**
+ * Which sessions a recap covers. Empty lists mean "no restriction".
+ * Applied after parsing (so the history index keeps everything) and before
+ * git lookup and merging.
+ */
+export interface SessionFilter {
+  projects: string[];          // keep only these: name, path (or a parent of it), or glob
+  excludedProjects: string[];  // drop these, same matching; from --exclude-project and config
+  tools: ToolName[];
+  models: string[];            // case-insensitive substrings of a model id
+}
+
+/** Keeps every session, for totals that must not depend on the filter */
+export const NO_FILTER: SessionFilter = { projects: [], excludedProjects: [], tools: [], models: [] };
+
+export function isFiltered(filter: SessionFilter): boolean {
+  return filter.projects.length > 0 || filter.tools.length > 0 || filter.models.length > 0;
+}
+
+/**
+ * Keep the sessions that pass every part of the filter.
+ * `onDrop` is told why each dropped session was left out.
+ */
+export function filterSessions(
+  sessions: Session[],
+  filter: SessionFilter,
+  onDrop?: (session: Session, reason: string) => void,
+): Session[] {
+  return sessions.filter((session) => {
+    const reason = rejectReason(session, filter);
+    if (reason) onDrop?.(session, reason);
+    return reason === null;
+  });
+}
+
+function rejectReason(session: Session, filter: SessionFilter): string | null {
+  if (filter.tools.length > 0 && !filter.tools.includes(session.tool)) return 'tool';
+  if (filter.projects.length > 0 && !filter.projects.some((p) => matchesProject(session, p))) return 'project';
+  if (filter.excludedProjects.some((p) => matchesProject(session, p))) return 'excluded project';
+  if (filter.models.length > 0) {
+    const models = session.models.map((m) => m.toLowerCase());
+    if (!filter.models.some((want) => models.some((m) => m.includes(want.toLowerCase())))) return 'model';
+  }
+  return null;
+}
+
+/**
+ * A project pattern matches a session when it equals the project name, equals
+ * the project path or one of its parents, or is a glob (`*`, `**`, `?`) that
+ * matches the name or the path. `~` and relative paths are resolved first.
+ */
+export function matchesProject(session: Session, pattern: string): boolean {
+  const { projectName, projectPath } = session;
+  const path = normalizePattern(pattern);
+
+  if (isGlob(pattern)) {
+    const re = globToRegExp(path);
+    return (projectName !== null && globToRegExp(pattern).test(projectName)) ||
+      (projectPath !== null && re.test(projectPath));
+  }
+
+  return pattern === projectName ||
+    (projectPath !== null && (projectPath === path || projectPath.startsWith(path.replace(/\/+$/, '') + '/')));
+}
+
+function normalizePattern(pattern: string): string {
+  const expanded = expandHome(pattern);
+  return expanded.startsWith('./') || expanded.startsWith('../') || expanded === '.' ? resolve(expanded) : expanded;
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/** `**` crosses directories, `*` and `?` stay within one path segment */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,117 @@
+// Shared value formatting for every output format (terminal, markdown, html).
+
+import type { BudgetStatus, GitActivity, Session, SubscriptionUsage } from './types.js';
+import { describeBudget } from './budgets.js';
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/** A session's cost, prefixed with ~ when it was guessed from an unknown model or missing usage */
+export function formatSessionCost(session: Pick<Session, 'costUsd' | 'costSource'>): string {
+  return session.costSource === 'guessed' ? `~${formatCost(session.costUsd)}` : formatCost(session.costUsd);
+}
+
+export const SUBSCRIPTION_HEADERS = ['Plan', 'Price', 'Today: API / plan', 'Month to date: API / plan', 'vs pay-as-you-go'];
+
+/** One row per plan for the Subscriptions table, shared by every output format */
+export function subscriptionRow(usage: SubscriptionUsage): string[] {
+  const mtd = usage.monthToDate;
+  const price = `${formatCost(usage.plan.monthlyUsd)}/mo` +
+    (usage.plan.includedUsd !== null ? ` incl. ${formatCost(usage.plan.includedUsd)}` : '');
+  const overage = mtd.overageUsd > 0 ? ` (${formatCost(mtd.overageUsd)} overage)` : '';
+  const saved = mtd.apiEquivalentUsd - mtd.amortizedUsd;
+  const verdict = saved >= 0 ? `saved ${formatCost(saved)}` : `${formatCost(-saved)} more`;
+  const multiple = mtd.amortizedUsd > 0 ? `${(mtd.apiEquivalentUsd / mtd.amortizedUsd).toFixed(1)}× · ` : '';
+  return [
+    usage.tool,
+    price,
+    `${formatCost(usage.apiEquivalentUsd)} / ${formatCost(usage.amortizedUsd)}`,
+    `${formatCost(mtd.apiEquivalentUsd)} / ${formatCost(mtd.amortizedUsd)}${overage}`,
+    `${multiple}${verdict}`,
+  ];
+}
+
+export const BUDGET_HEADERS = ['Budget', 'Spent', 'Limit', 'Used', 'Projected'];
+
+/** One row per budget for the Budgets table, shared by every output format */
+export function budgetRow(status: BudgetStatus): string[] {
+  const used = Math.round((status.spentUsd / status.budget.limitUsd) * 100);
+  return [
+    describeBudget(status.budget),
+    formatCost(status.spentUsd),
+    formatCost(status.budget.limitUsd),
+    `${used}%${status.over ? ' — over' : ''}`,
+    status.projectedUsd === null ? '—' : formatCost(status.projectedUsd),
+  ];
+}
+
+export function formatDuration(ms: number): string {
+  if (ms <= 0) return '0s';
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return `${hours}h ${remainingMinutes}m`;
+}
+
+/** Short hashes of the commits a session led to, or a dash when it led to none */
+export function formatCommitRefs(hashes: string[] | undefined): string {
+  if (!hashes || hashes.length === 0) return '—';
+  return hashes.map((hash) => hash.slice(0, 7)).join(', ');
+}
+
+export function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) return str;
+  return str.slice(0, maxLen - 1) + '…';
+}
+
+/**
+ * Plain-text lines for work that isn't in the day's commits: the branch, other
+ * branches that moved, uncommitted changes to touched files, and new stashes.
+ */
+export function describeWorkInProgress(git: GitActivity): string[] {
+  const lines: string[] = [];
+
+  const others = git.branches.filter((b) => b.name !== git.currentBranch);
+  if (git.currentBranch || others.length > 0) {
+    let line = `Branch: ${git.currentBranch ?? 'detached HEAD'}`;
+    if (others.length > 0) {
+      line += `; also committed to ${others.map((b) => `${b.name} (${b.commitCount})`).join(', ')}`;
+    }
+    lines.push(line);
+  }
+
+  if (git.uncommitted) {
+    const { staged, unstaged, untracked } = git.uncommitted;
+    const parts: string[] = [];
+    if (staged.files.length > 0) parts.push(`${plural(staged.files.length, 'staged file')} (+${staged.insertions}/-${staged.deletions})`);
+    if (unstaged.files.length > 0) parts.push(`${plural(unstaged.files.length, 'unstaged file')} (+${unstaged.insertions}/-${unstaged.deletions})`);
+    if (untracked.length > 0) parts.push(plural(untracked.length, 'untracked file'));
+    if (parts.length > 0) {
+      const files = [...new Set([...staged.files, ...unstaged.files, ...untracked])];
+      const shown = files.slice(0, 5).join(', ') + (files.length > 5 ? `, +${files.length - 5} more` : '');
+      lines.push(`Uncommitted: ${parts.join(', ')}: ${shown}`);
+    }
+  }
+
+  for (const stash of git.stashes) {
+    lines.push(`Stash ${stash.ref}: ${stash.message}`);
+  }
+
+  return lines;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -1,70 +1,37 @@
-import { execFileSync } from 'node:child_process';
+import { execFile, execFileSync } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { join, basename } from 'node:path';
-import type { GitActivity, GitCommit } from './types.js';
+import { join, basename, isAbsolute, relative, resolve, sep } from 'node:path';
+import { promisify } from 'node:util';
+import { homedir } from 'node:os';
+import { dateOf, dayWindow, today } from './dates.js';
+import type { Author, DiffStats, GitActivity, GitBranchActivity, GitCommit, GitStash, UncommittedWork } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 10_000;
+const GIT_LOG_TIMEOUT_MS = 30_000; // one log with numstat for the whole day
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Field and record separators for `git log --format`; neither can appear in a subject
+const FIELD_SEP = '\x1f';
+const RECORD_SEP = '\x1e';
 
 /**
- * Get git activity for a project directory on a specific date.
+ * Get git activity for a project directory on a specific date: commits on
+ * HEAD, other branches that moved, stashes, and (for today) uncommitted
+ * changes to the files in `filesTouched`.
  */
-export function getGitActivity(
+export async function getGitActivity(
   projectPath: string,
   date: string,
   authorFilter?: string | null,
-): GitActivity | null {
+  filesTouched: string[] = [],
+): Promise<GitActivity | null> {
   // Verify it's a git repo
   if (!existsSync(join(projectPath, '.git'))) return null;
 
   try {
-    const args = [
-      'log',
-      `--after=${date}T00:00:00`,
-      `--before=${date}T23:59:59`,
-      '--format=%H|%h|%an|%aI|%s',
-      '--no-merges',
-    ];
-
-    if (authorFilter) {
-      args.push(`--author=${authorFilter}`);
-    }
-
-    const raw = execFileSync('git', args, {
-      cwd: projectPath,
-      encoding: 'utf-8',
-      timeout: 10_000,
-    }).trim();
-
-    if (!raw) {
-      return {
-        projectPath,
-        projectName: basename(projectPath),
-        commits: [],
-        totalFilesChanged: 0,
-        totalInsertions: 0,
-        totalDeletions: 0,
-      };
-    }
-
-    const commitLines = raw.split('\n').filter(Boolean);
-    const commits: GitCommit[] = [];
-
-    for (const line of commitLines) {
-      const [hash, shortHash, author, timestamp, ...messageParts] = line.split('|');
-      const message = messageParts.join('|'); // message might contain |
-
-      const stats = getCommitStats(projectPath, hash);
-
-      commits.push({
-        hash,
-        shortHash,
-        message,
-        author,
-        timestamp: new Date(timestamp),
-        filesChanged: stats.filesChanged,
-        insertions: stats.insertions,
-        deletions: stats.deletions,
-        files: stats.files,
-      });
-    }
+    const commits = await getCommits(projectPath, date, authorFilter);
 
     const totalFilesChanged = new Set(commits.flatMap((c) => c.files)).size;
     const totalInsertions = commits.reduce((sum, c) => sum + c.insertions, 0);
@@ -73,43 +40,286 @@ export function getGitActivity(
     return {
       projectPath,
       projectName: basename(projectPath),
+      repoPrefix: await getRepoPrefix(projectPath),
       commits,
       totalFilesChanged,
       totalInsertions,
       totalDeletions,
+      remoteUrl: await getRemoteUrl(projectPath),
+      currentBranch: await getCurrentBranch(projectPath),
+      branches: await getBranchActivity(projectPath, date, authorFilter),
+      uncommitted: date === today() ? await getUncommittedWork(projectPath, filesTouched) : null,
+      stashes: await getStashes(projectPath, date),
     };
   } catch {
     return null;
   }
 }
 
-function getCommitStats(
-  projectPath: string,
-  hash: string,
-): { filesChanged: number; insertions: number; deletions: number; files: string[] } {
+/**
+ * Session paths may be absolute or relative to the project. Returns the path
+ * relative to the project with "/" separators, or null when the file lives outside it.
+ */
+export function toProjectRelative(projectPath: string, file: string): string | null {
+  const rel = relative(projectPath, resolve(projectPath, file));
+  if (!rel || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) return null;
+  return rel.split(sep).join('/');
+}
+
+async function runGit(projectPath: string, args: string[], timeout = GIT_TIMEOUT_MS): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: projectPath,
+    encoding: 'utf-8',
+    timeout,
+    maxBuffer: GIT_MAX_BUFFER,
+  });
+  return stdout;
+}
+
+function dayArgs(date: string, authorFilter?: string | null): string[] {
+  const { startMs, endMs } = dayWindow(date);
+  const args = [`--after=${new Date(startMs).toISOString()}`, `--before=${new Date(endMs).toISOString()}`, '--no-merges'];
+  if (authorFilter) args.push(`--author=${authorFilter}`);
+  return args;
+}
+
+/** Where projectPath sits inside its repo, in the form commit file paths use ("" at the root) */
+async function getRepoPrefix(projectPath: string): Promise<string> {
   try {
-    const raw = execFileSync(
-      'git',
-      ['diff-tree', '--no-commit-id', '--numstat', '-r', hash],
-      { cwd: projectPath, encoding: 'utf-8', timeout: 10_000 },
-    ).trim();
-
-    if (!raw) return { filesChanged: 0, insertions: 0, deletions: 0, files: [] };
-
-    const lines = raw.split('\n').filter(Boolean);
-    let insertions = 0;
-    let deletions = 0;
-    const files: string[] = [];
-
-    for (const line of lines) {
-      const [ins, del, file] = line.split('\t');
-      if (ins !== '-') insertions += parseInt(ins, 10) || 0;
-      if (del !== '-') deletions += parseInt(del, 10) || 0;
-      if (file) files.push(file);
+    return (await runGit(projectPath, ['rev-parse', '--show-prefix'])).trim();
+  } catch {
+    return '';
+  }
+}
+
+// ── Commits ──────────────────────────────────────────────────────
+
+/**
+ * Hashes, metadata and per-file stats for the day's commits in one `git log`.
+ * With -z, each record is RECORD_SEP, the header fields, NUL, then one
+ * NUL-terminated numstat entry per file.
+ */
+async function getCommits(projectPath: string, date: string, authorFilter?: string | null): Promise<GitCommit[]> {
+  const raw = await runGit(
+    projectPath,
+    ['log', ...dayArgs(date, authorFilter), '--numstat', '-z', `--format=${RECORD_SEP}%H${FIELD_SEP}%h${FIELD_SEP}%an${FIELD_SEP}%aI${FIELD_SEP}%s`],
+    GIT_LOG_TIMEOUT_MS,
+  );
+  return parseLog(raw);
+}
+
+export function parseLog(raw: string): GitCommit[] {
+  const commits: GitCommit[] = [];
+
+  for (const record of raw.split(RECORD_SEP)) {
+    if (!record.trim()) continue;
+
+    const headerEnd = record.indexOf('\0');
+    const header = headerEnd === -1 ? record : record.slice(0, headerEnd);
+    const [hash, shortHash, author, timestamp, ...subjectParts] = header.split(FIELD_SEP);
+    if (!hash || !timestamp) continue;
+
+    const stats = sumNumstat(headerEnd === -1 ? [] : parseNumstat(record.slice(headerEnd + 1)));
+
+    commits.push({
+      hash,
+      shortHash,
+      message: subjectParts.join(FIELD_SEP),
+      author,
+      timestamp: new Date(timestamp),
+      filesChanged: stats.files.length,
+      insertions: stats.insertions,
+      deletions: stats.deletions,
+      files: stats.files,
+      sessionIds: [],
+    });
+  }
+
+  return commits;
+}
+
+/**
+ * Parse NUL-terminated `--numstat -z` output. Binary files report "-" for
+ * both counts; renames have an empty path followed by the old and new paths.
+ */
+function parseNumstat(raw: string): NumstatEntry[] {
+  const entries: NumstatEntry[] = [];
+  const tokens = raw.split('\0');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const entry = tokens[i].replace(/^\n+/, '');
+    if (!entry) continue;
+
+    const [ins, del, path] = entry.split('\t');
+    if (del === undefined) continue;
+
+    let file = path;
+    if (!file) {
+      // Rename or copy: old path, then new path — report where the file lives now
+      file = tokens[i + 2] ?? '';
+      i += 2;
     }
+    if (!file) continue;
+
+    entries.push({
+      file,
+      insertions: ins === '-' ? 0 : parseInt(ins, 10) || 0,
+      deletions: del === '-' ? 0 : parseInt(del, 10) || 0,
+    });
+  }
+
+  return entries;
+}
+
+interface NumstatEntry {
+  file: string;
+  insertions: number;
+  deletions: number;
+}
+
+function sumNumstat(entries: NumstatEntry[]): DiffStats {
+  return {
+    files: entries.map((e) => e.file),
+    insertions: entries.reduce((sum, e) => sum + e.insertions, 0),
+    deletions: entries.reduce((sum, e) => sum + e.deletions, 0),
+  };
+}
+
+function emptyDiffStats(): DiffStats {
+  return { files: [], insertions: 0, deletions: 0 };
+}
 
-    return { filesChanged: files.length, insertions, deletions, files };
+// ── Branches, stashes and the working tree ───────────────────────
+
+/** origin's URL, or the first remote's, without any user:password@ part */
+async function getRemoteUrl(projectPath: string): Promise<string | null> {
+  try {
+    const remotes = (await runGit(projectPath, ['remote'])).split('\n').filter(Boolean);
+    const remote = remotes.includes('origin') ? 'origin' : remotes[0];
+    if (!remote) return null;
+    const url = (await runGit(projectPath, ['remote', 'get-url', remote])).trim();
+    return url.replace(/^([a-z+]+:\/\/)[^@/]+@/i, '$1') || null;
+  } catch {
+    return null;
+  }
+}
+
+async function getCurrentBranch(projectPath: string): Promise<string | null> {
+  try {
+    return (await runGit(projectPath, ['branch', '--show-current'])).trim() || null;
   } catch {
-    return { filesChanged: 0, insertions: 0, deletions: 0, files: [] };
+    return null;
+  }
+}
+
+/**
+ * Local branches with commits that day. `--source` names the ref each commit
+ * was reached from, so a commit on several branches counts once.
+ */
+async function getBranchActivity(projectPath: string, date: string, authorFilter?: string | null): Promise<GitBranchActivity[]> {
+  let raw: string;
+  try {
+    raw = await runGit(projectPath, ['log', '--all', '--source', ...dayArgs(date, authorFilter), '--format=%S']);
+  } catch {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const ref of raw.split('\n')) {
+    if (!ref.startsWith('refs/heads/')) continue;
+    const name = ref.slice('refs/heads/'.length);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return [...counts].map(([name, commitCount]) => ({ name, commitCount }));
+}
+
+/** Staged, unstaged and untracked changes to files the sessions touched */
+async function getUncommittedWork(projectPath: string, filesTouched: string[]): Promise<UncommittedWork> {
+  const touched = new Set(
+    filesTouched
+      .map((file) => toProjectRelative(projectPath, file))
+      .filter((file): file is string => file !== null),
+  );
+
+  const work: UncommittedWork = { staged: emptyDiffStats(), unstaged: emptyDiffStats(), untracked: [] };
+  if (touched.size === 0) return work;
+
+  try {
+    // --relative keeps paths relative to the project even when it's a subdirectory of the repo
+    const touchedOnly = (raw: string) => sumNumstat(parseNumstat(raw).filter((e) => touched.has(e.file)));
+    work.staged = touchedOnly(await runGit(projectPath, ['diff', '--cached', '--numstat', '--relative', '-z']));
+    work.unstaged = touchedOnly(await runGit(projectPath, ['diff', '--numstat', '--relative', '-z']));
+    work.untracked = (await runGit(projectPath, ['ls-files', '--others', '--exclude-standard', '-z']))
+      .split('\0')
+      .filter((file) => touched.has(file));
+  } catch {
+    // Leave whatever was collected; a failed diff shouldn't hide the commits
+  }
+  return work;
+}
+
+/** Stashes created on `date`, newest first as `git stash list` prints them */
+async function getStashes(projectPath: string, date: string): Promise<GitStash[]> {
+  let raw: string;
+  try {
+    raw = await runGit(projectPath, ['stash', 'list', `--format=%gd${FIELD_SEP}%cI${FIELD_SEP}%gs`]);
+  } catch {
+    return [];
+  }
+
+  const stashes: GitStash[] = [];
+  for (const line of raw.split('\n').filter(Boolean)) {
+    const [ref, timestamp, ...messageParts] = line.split(FIELD_SEP);
+    const created = new Date(timestamp);
+    if (Number.isNaN(created.getTime()) || dateOf(created.getTime()) !== date) continue;
+    stashes.push({ ref, message: messageParts.join(FIELD_SEP), timestamp: created });
+  }
+  return stashes;
+}
+
+// ── Diagnostics ──────────────────────────────────────────────────
+
+/** `git --version` output, or null if git isn't on PATH */
+export function getGitVersion(): string | null {
+  try {
+    return execFileSync('git', ['--version'], { encoding: 'utf-8', timeout: 5_000 }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/** The developer's git identity (user.name / user.email), or null when neither is set */
+export function getGitIdentity(): Author | null {
+  const read = (key: string) => {
+    try {
+      return execFileSync('git', ['config', '--get', key], { encoding: 'utf-8', timeout: 5_000, cwd: homedir() }).trim() || null;
+    } catch {
+      return null;
+    }
+  };
+  const name = read('user.name');
+  const email = read('user.email');
+  return name || email ? { name, email } : null;
+}
+
+/**
+ * Explain why getGitActivity would (or wouldn't) return commits for a project,
+ * without swallowing the error.
+ */
+export function diagnoseGitRepo(projectPath: string): { ok: boolean; detail: string } {
+  if (!existsSync(projectPath)) return { ok: false, detail: 'directory does not exist' };
+  if (!existsSync(join(projectPath, '.git'))) return { ok: false, detail: 'not a git repository (no .git at project root)' };
+
+  try {
+    const head = execFileSync('git', ['log', '-1', '--format=%h %aI'], {
+      cwd: projectPath,
+      encoding: 'utf-8',
+      timeout: 10_000,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }).trim();
+    return head ? { ok: true, detail: `last commit ${head}` } : { ok: true, detail: 'no commits yet' };
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.toString().trim();
+    return { ok: false, detail: stderr || (err instanceof Error ? err.message : String(err)) };
   }
 }
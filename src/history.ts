@@ -0,0 +1,211 @@
+import { join } from 'node:path';
+import { WritableDatabase } from './db.js';
+import { getConfigDir } from './config.js';
+import { dayWindow } from './dates.js';
+import { getPricing } from './pricing.js';
+import type { Session, ToolName } from './types.js';
+
+/**
+ * Bump when the stored Session shape changes — older rows are dropped
+ * and re-parsed instead of being revived with missing fields.
+ */
+const HISTORY_SCHEMA_VERSION = 7;
+
+const HISTORY_FILE = join(getConfigDir(), 'history.db');
+
+interface ScanRow {
+  source_mtime: number;
+  source_key: string;
+  window_start: number;
+  window_end: number;
+  pricing: string;
+}
+
+interface SessionRow {
+  data: string;
+}
+
+/**
+ * Local index of parsed sessions, stored in ~/.config/devday/history.db.
+ *
+ * Sessions are stored per (tool, date) together with the source mtime
+ * the parser reported when they were read. A later run for the same
+ * tool and date reuses the stored rows as long as the source hasn't changed.
+ *
+ * Source mtimes are capped at the end of the day they're compared for:
+ * session logs are append-only, so edits made after a day is over don't
+ * change that day's sessions, and past days stay cached while you keep working.
+ *
+ * Sessions are stored as parsed, before redaction, so the current redact
+ * patterns always apply to what's read back.
+ *
+ * Parsers whose sessions depend on more than the files' mtimes (Aider
+ * searches the current directory, Gemini CLI maps folders to known projects)
+ * also report a source key; a scan only counts for the same key.
+ *
+ * Each scan also records the instants its day covered, so changing the
+ * time zone or day-start hour re-parses instead of reusing another window.
+ * Likewise for the pricing table, so editing pricing.json re-prices sessions.
+ */
+export class SessionHistory {
+  private db: WritableDatabase;
+  private dirty = false;
+
+  private constructor(db: WritableDatabase) {
+    this.db = db;
+  }
+
+  static async open(filePath: string = HISTORY_FILE): Promise<SessionHistory> {
+    const db = await WritableDatabase.openOrCreate(filePath);
+    const history = new SessionHistory(db);
+    history.migrate();
+    return history;
+  }
+
+  /**
+   * Sessions stored for a tool and date, or null if that day was never
+   * scanned or the source has changed since.
+   */
+  getSessions(tool: ToolName, date: string, sourceMtime: number, sourceKey: string): Session[] | null {
+    const scans = this.db.all<ScanRow>(
+      'SELECT source_mtime, source_key, window_start, window_end, pricing FROM scans WHERE tool = ? AND date = ?',
+      tool,
+      date,
+    );
+    const window = dayWindow(date);
+    const scan = scans[0];
+    if (
+      !scan ||
+      scan.source_mtime !== settleMtime(date, sourceMtime) ||
+      scan.source_key !== sourceKey ||
+      scan.window_start !== window.startMs ||
+      scan.window_end !== window.endMs ||
+      scan.pricing !== getPricing().fingerprint
+    ) {
+      return null;
+    }
+
+    const rows = this.db.all<SessionRow>(
+      'SELECT data FROM sessions WHERE tool = ? AND date = ? ORDER BY started_at',
+      tool,
+      date,
+    );
+    return rows.map((row) => reviveSession(row.data));
+  }
+
+  /** Replace everything stored for a tool and date with a fresh scan. */
+  putSessions(tool: ToolName, date: string, sourceMtime: number, sourceKey: string, sessions: Session[]): void {
+    const settled = settleMtime(date, sourceMtime);
+    this.db.exec('BEGIN');
+    try {
+      this.db.run('DELETE FROM sessions WHERE tool = ? AND date = ?', tool, date);
+      for (const session of sessions) {
+        this.db.run(
+          `INSERT OR REPLACE INTO sessions
+            (tool, id, date, project_path, started_at, ended_at, cost_usd, total_tokens, source_mtime, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          tool,
+          session.id,
+          date,
+          session.projectPath,
+          session.startedAt.getTime(),
+          session.endedAt.getTime(),
+          session.costUsd,
+          session.tokens.total,
+          settled,
+          JSON.stringify(session),
+        );
+      }
+      const window = dayWindow(date);
+      this.db.run(
+        `INSERT OR REPLACE INTO scans (tool, date, source_mtime, source_key, window_start, window_end, pricing, scanned_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        tool,
+        date,
+        settled,
+        sourceKey,
+        window.startMs,
+        window.endMs,
+        getPricing().fingerprint,
+        Date.now(),
+      );
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+    this.dirty = true;
+  }
+
+  /** Every project path any tool has reported sessions for. */
+  getProjectPaths(): string[] {
+    const rows = this.db.all<{ project_path: string }>(
+      'SELECT DISTINCT project_path FROM sessions WHERE project_path IS NOT NULL',
+    );
+    return rows.map((row) => row.project_path);
+  }
+
+  /** Persist pending writes (if any) and release the database. */
+  close(): void {
+    if (this.dirty) this.db.save();
+    this.db.close();
+  }
+
+  private migrate(): void {
+    this.db.exec('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    const rows = this.db.all<{ value: string }>("SELECT value FROM meta WHERE key = 'schema_version'");
+    if (rows[0]?.value === String(HISTORY_SCHEMA_VERSION)) return;
+
+    this.db.exec(`
+      DROP TABLE IF EXISTS sessions;
+      DROP TABLE IF EXISTS scans;
+      CREATE TABLE sessions (
+        tool TEXT NOT NULL,
+        id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        project_path TEXT,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        source_mtime INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tool, id, date)
+      );
+      CREATE INDEX sessions_by_date ON sessions (date);
+      CREATE TABLE scans (
+        tool TEXT NOT NULL,
+        date TEXT NOT NULL,
+        source_mtime INTEGER NOT NULL,
+        source_key TEXT NOT NULL,
+        window_start INTEGER NOT NULL,
+        window_end INTEGER NOT NULL,
+        pricing TEXT NOT NULL,
+        scanned_at INTEGER NOT NULL,
+        PRIMARY KEY (tool, date)
+      );
+    `);
+    this.db.run(
+      "INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)",
+      String(HISTORY_SCHEMA_VERSION),
+    );
+    this.dirty = true;
+  }
+}
+
+export function getHistoryPath(): string {
+  return HISTORY_FILE;
+}
+
+function settleMtime(date: string, mtime: number): number {
+  return Math.min(mtime, dayWindow(date).endMs);
+}
+
+function reviveSession(data: string): Session {
+  const raw = JSON.parse(data) as Session;
+  return {
+    ...raw,
+    startedAt: new Date(raw.startedAt),
+    endedAt: new Date(raw.endedAt),
+  };
+}
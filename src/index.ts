@@ -1,22 +1,61 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import chalk from 'chalk';
-import { format, subDays } from 'date-fns';
 import { homedir } from 'node:os';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
 import { createRequire } from 'node:module';
 
 const require = createRequire(import.meta.url);
 const { version: PKG_VERSION } = require('../package.json');
-import { loadConfig } from './config.js';
+import {
+  loadConfig,
+  getConfigPath,
+  getConfigValue,
+  setConfigValue,
+  unsetConfigValue,
+  CONFIG_KEYS,
+  TOOL_NAMES,
+} from './config.js';
+import { filterSessions, isFiltered, NO_FILTER, type SessionFilter } from './filters.js';
 import { OpenCodeParser } from './parsers/opencode.js';
 import { ClaudeCodeParser } from './parsers/claude-code.js';
 import { CursorParser } from './parsers/cursor.js';
 import { CodexParser } from './parsers/codex.js';
-import { getGitActivity } from './git.js';
-import { buildDayRecap } from './merge.js';
-import { summarizeRecap, type SummarizeLogger } from './summarize.js';
-import { renderRecap } from './render.js';
-import type { Session, GitActivity, Parser } from './types.js';
+import { AiderParser } from './parsers/aider.js';
+import { GeminiCliParser } from './parsers/gemini-cli.js';
+import { getGitActivity, getGitIdentity } from './git.js';
+import { SessionHistory } from './history.js';
+import { runDoctor } from './doctor.js';
+import { buildSlackPayload, postToSlack } from './slack.js';
+import { buildDigestEmail } from './digest.js';
+import { sendMail } from './smtp.js';
+import { buildRedactors, redactSession, type Redactor } from './redact.js';
+import { clearSummaryCache, getSummaryCacheDir } from './summary-cache.js';
+import { buildDayRecap, buildRangeRecap } from './merge.js';
+import { buildSubscriptionUsage } from './subscriptions.js';
+import { budgetsStart, describeBudget, evaluateBudgets } from './budgets.js';
+import { summarizeRecap, summarizeRange, getSummarizerModel, type SummarizeLogger } from './summarize.js';
+import { renderRecap, renderRangeRecap, renderTeamRecap, formatRecap, formatRangeRecap, formatTeamRecap } from './render.js';
+import { buildTeamRecap, parseTeamExport } from './team.js';
+import { renderTimeline } from './render-timeline.js';
+import { renderTokens } from './render-tokens.js';
+import {
+  resolveDate,
+  today,
+  isValidDate,
+  isValidMonth,
+  weekRange,
+  monthRange,
+  eachDate,
+  monthToDate,
+  isValidTimeZone,
+  parseDayStartHour,
+  setDayBoundary,
+  describeDayBoundary,
+  type DateRange,
+} from './dates.js';
+import type { Session, GitActivity, Parser, DayRecap, RangeRecap, DevDayConfig, OutputFormat, ToolName } from './types.js';
 
 let verbose = false;
 
@@ -25,28 +64,154 @@ function debug(msg: string): void {
 }
 
 /**
- * Resolve date string: supports YYYY-MM-DD, "today", "yesterday"
+ * Resolve --week / --month / --from / --to into a date range.
+ * Returns null when none are given (single-day recap). Exits on invalid input.
  */
-function resolveDate(input: string | undefined): string {
-  if (!input) return format(new Date(), 'yyyy-MM-dd');
-  const lower = input.toLowerCase();
-  if (lower === 'today') return format(new Date(), 'yyyy-MM-dd');
-  if (lower === 'yesterday') return format(subDays(new Date(), 1), 'yyyy-MM-dd');
-  return input;
+function resolveRange(opts: {
+  week?: string | boolean;
+  month?: string | boolean;
+  from?: string;
+  to?: string;
+}): DateRange | null {
+  const modes = [opts.week !== undefined, opts.month !== undefined, opts.from !== undefined || opts.to !== undefined];
+  if (modes.filter(Boolean).length > 1) {
+    console.error(chalk.red('Use only one of --week, --month, or --from/--to.'));
+    process.exit(1);
+  }
+
+  if (opts.week !== undefined) {
+    const ref = typeof opts.week === 'string' ? resolveDate(opts.week) : undefined;
+    if (ref && !isValidDate(ref)) {
+      console.error(chalk.red(`Invalid week date: "${opts.week}". Use YYYY-MM-DD, "today", or "yesterday".`));
+      process.exit(1);
+    }
+    return inPast(() => weekRange(ref));
+  }
+
+  if (opts.month !== undefined) {
+    const ref = typeof opts.month === 'string' ? opts.month : undefined;
+    if (ref && !isValidMonth(ref)) {
+      console.error(chalk.red(`Invalid month: "${opts.month}". Use YYYY-MM.`));
+      process.exit(1);
+    }
+    return inPast(() => monthRange(ref));
+  }
+
+  if (opts.from !== undefined || opts.to !== undefined) {
+    if (opts.from === undefined) {
+      console.error(chalk.red('--to requires --from.'));
+      process.exit(1);
+    }
+    const from = resolveDate(opts.from);
+    const to = resolveDate(opts.to);
+    if (!isValidDate(from) || !isValidDate(to)) {
+      console.error(chalk.red(`Invalid range: "${opts.from}" → "${opts.to ?? 'today'}". Use YYYY-MM-DD, "today", or "yesterday".`));
+      process.exit(1);
+    }
+    if (from > to) {
+      console.error(chalk.red(`Invalid range: ${from} is after ${to}.`));
+      process.exit(1);
+    }
+    return { from, to };
+  }
+
+  return null;
+}
+
+/** Build a --week / --month range, exiting when it lies entirely in the future */
+function inPast(build: () => DateRange): DateRange {
+  try {
+    return build();
+  } catch (error) {
+    console.error(chalk.red(`Invalid range: ${error instanceof Error ? error.message : error}.`));
+    process.exit(1);
+  }
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['terminal', 'json', 'markdown', 'html'];
+
+const FORMAT_BY_EXTENSION: Record<string, OutputFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.json': 'json',
+};
+
+/** Projects whose git history is read at the same time */
+const GIT_CONCURRENCY = 4;
+
+/**
+ * Resolve --format / --json / --output into one output format.
+ * With -o and no --format, the format comes from the file extension, then the
+ * configured default, then markdown. Exits on invalid combinations.
+ */
+function resolveFormat(opts: { format?: string; json?: boolean; output?: string }, defaultFormat: OutputFormat): OutputFormat {
+  if (opts.format !== undefined && !OUTPUT_FORMATS.includes(opts.format as OutputFormat)) {
+    console.error(chalk.red(`Invalid format: "${opts.format}". Use ${OUTPUT_FORMATS.join(', ')}.`));
+    process.exit(1);
+  }
+  if (opts.json && opts.format !== undefined && opts.format !== 'json') {
+    console.error(chalk.red(`--json conflicts with --format ${opts.format}.`));
+    process.exit(1);
+  }
+
+  let format = opts.json ? 'json' : opts.format as OutputFormat | undefined;
+  if (opts.output !== undefined) {
+    format ??= FORMAT_BY_EXTENSION[extname(opts.output).toLowerCase()]
+      ?? (defaultFormat !== 'terminal' ? defaultFormat : 'markdown');
+    if (format === 'terminal') {
+      console.error(chalk.red('The terminal format cannot be written to a file. Use markdown, html, or json.'));
+      process.exit(1);
+    }
+  }
+
+  return format ?? defaultFormat;
+}
+
+/** Print a document to stdout, or write it to --output and confirm on stderr */
+function emitDocument(document: string, output: string | undefined): void {
+  if (output === undefined) {
+    process.stdout.write(document);
+    return;
+  }
+  const filePath = resolve(output);
+  writeFileSync(filePath, document, 'utf-8');
+  console.error(chalk.green(`  Wrote ${filePath}`));
 }
 
 const program = new Command();
 
 program
   .name('devday')
+  .enablePositionalOptions()
   .description('End-of-day recap for AI-assisted coding sessions')
   .version(PKG_VERSION)
   .option('-d, --date <date>', 'date: YYYY-MM-DD, "today", or "yesterday" (default: today)')
+  .option('-w, --week [date]', 'recap the Monday-Sunday week containing date (default: this week)')
+  .option('-m, --month [month]', 'recap a calendar month: YYYY-MM (default: this month)')
+  .option('--from <date>', 'start of a custom range: YYYY-MM-DD, "today", or "yesterday"')
+  .option('--to <date>', 'end of a custom range (default: today)')
+  .option('-p, --project <pattern>', 'only include this project: name, path, or glob (repeatable)', collect, [])
+  .option('--exclude-project <pattern>', 'leave out this project, on top of config excludedProjects (repeatable)', collect, [])
+  .option('-t, --tool <name>', `only include this tool: ${TOOL_NAMES.join(', ')} (repeatable)`, collect, [])
+  .option('--model <substr>', 'only include sessions that used a model containing this text (repeatable)', collect, [])
+  .option('--tz <zone>', 'time zone that decides which day work belongs to, e.g. Europe/Berlin (default: config timeZone, then the machine\'s)')
+  .option('--day-start <hour>', 'hour a day starts at, e.g. 04:00 so late-night work counts as the previous day (default: config dayStart, then 00:00)')
   .option('-s, --standup', 'output a short standup-ready summary')
-  .option('-j, --json', 'output raw JSON')
+  .option('-j, --json', 'output raw JSON (same as --format json)')
+  .option('-f, --format <format>', 'output format: terminal, json, markdown, or html (default: terminal, or config defaultFormat)')
+  .option('-o, --output <file>', 'write the report to a file; format follows the extension (.md, .html, .json)')
+  .option('--timeline', 'chart when during the day each project and tool was active')
+  .option('--tokens', 'break tokens down by tool, model, project and session, with cache hits and savings')
+  .option('--post <target>', 'post the recap instead of printing it: slack')
+  .option('--dry-run', 'with --post, print the payload instead of sending it')
+  .option('--fail-over-budget', 'exit with code 1 when any configured budget is exceeded')
   .option('-v, --verbose', 'show debug output')
   .option('--no-git', 'skip git log integration')
   .option('--no-summarize', 'skip LLM summarization')
+  .option('--no-history', 'always re-parse tool data instead of using the local history index')
+  .option('--refresh-summary', 'regenerate LLM summaries instead of using cached ones')
   .addHelpText('after', `
 Examples:
   $ devday                    today's recap
@@ -54,97 +219,214 @@ Examples:
   $ devday -d 2026-02-10      specific date
   $ devday --standup          short standup format
   $ devday --json             machine-readable output
+  $ devday --format markdown  paste-ready markdown on stdout
+  $ devday --week -o week.html  self-contained HTML report
+  $ devday -s --post slack    post the standup to a Slack webhook
+  $ devday --timeline         hour-by-hour chart of sessions and commits
+  $ devday --tokens           token mix, cache hit ratio and what caching saved
+  $ devday --fail-over-budget --no-summarize -j > /dev/null   exit 1 when over budget (cron, shell prompt)
   $ devday -d yesterday -s    yesterday's standup
+  $ devday --week             this week so far
+  $ devday --week 2026-09-14  the week containing that date
+  $ devday --month 2026-09    a whole month
+  $ devday --from 2026-09-01 --to 2026-09-15
+  $ devday --week --standup   weekly narrative only
+  $ devday -s -p ~/work/api   standup for one repo
+  $ devday --week -p '~/work/*' --exclude-project ~/work/sandbox
+  $ devday -t claude-code --model opus
+  $ devday --day-start 4      work until 04:00 counts as the previous day
+  $ devday --tz America/New_York -d yesterday
 
 Environment variables:
   CONCENTRATE_API_KEY         enables AI-powered summaries via Concentrate AI
   OPENAI_API_KEY              enables AI-powered summaries via OpenAI
   ANTHROPIC_API_KEY           enables AI-powered summaries via Anthropic
+  DEVDAY_LLM_BASE_URL         summarize with a local OpenAI-compatible server instead
+                              (e.g. http://localhost:11434/v1 for Ollama)
+  DEVDAY_LLM_MODEL            model name for DEVDAY_LLM_BASE_URL (default: llama3.1)
+  DEVDAY_LLM_API_KEY          optional: bearer token for DEVDAY_LLM_BASE_URL
   LINEAR_MCP_SERVER_URL       optional: enables Linear MCP lookups in standup summaries
   LINEAR_MCP_AUTH_TOKEN       optional: bearer token for LINEAR_MCP_SERVER_URL
+  DEVDAY_SLACK_WEBHOOK_URL    Slack incoming webhook for --post slack
+  DEVDAY_SMTP_PASSWORD        SMTP password for devday digest --send
 
 Supported tools:
   opencode                    ~/.local/share/opencode/storage/
   claude code                 ~/.claude/
   cursor                      ~/Library/.../state.vscdb
   codex                       ~/.codex/sessions/
+  gemini cli                  ~/.gemini/tmp/
+  aider                       <repo>/.aider.chat.history.md
 `)
   .action(async (opts) => {
     verbose = opts.verbose ?? false;
-    const date = resolveDate(opts.date);
     const config = loadConfig();
+    applyDayBoundary(opts, config);
+    const date = resolveDate(opts.date);
+    const range = resolveRange(opts);
+    const filter = resolveFilter(opts, config);
 
     // Validate date format
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    if (!range && !isValidDate(date)) {
       console.error(chalk.red(`Invalid date format: "${opts.date}". Use YYYY-MM-DD, "today", or "yesterday".`));
       process.exit(1);
     }
 
-    const isJson = opts.json ?? false;
+    if (opts.post !== undefined && opts.post !== 'slack') {
+      console.error(chalk.red(`Unknown --post target: "${opts.post}". Supported: slack.`));
+      process.exit(1);
+    }
+    if (opts.post && range) {
+      console.error(chalk.red('--post only supports single-day recaps.'));
+      process.exit(1);
+    }
+    if (opts.failOverBudget && range) {
+      console.error(chalk.red('--fail-over-budget checks the budgets for a single day; it can\'t be combined with ranges.'));
+      process.exit(1);
+    }
+    if (opts.failOverBudget && config.budgets.length === 0) {
+      console.error(chalk.red(`No budgets configured. Add one with ${chalk.cyan('devday config set budgets "monthly 200"')}.`));
+      process.exit(1);
+    }
+    for (const view of ['timeline', 'tokens'] as const) {
+      if (opts[view] && (range || opts.post || opts.format || opts.json || opts.output)) {
+        console.error(chalk.red(`--${view} is a terminal view of a single day; it can't be combined with ranges, --post, --format or -o.`));
+        process.exit(1);
+      }
+    }
+    if (opts.timeline && opts.tokens) {
+      console.error(chalk.red('Pick one of --timeline and --tokens.'));
+      process.exit(1);
+    }
+
+    // A dry-run payload is JSON on stdout, so keep the banner and spinner out of it
+    const outputFormat: OutputFormat = opts.post && opts.dryRun ? 'json' : resolveFormat(opts, config.defaultFormat);
+    const isTerminal = outputFormat === 'terminal';
 
-    // ── First-run banner (skip for JSON output) ───────────────
-    if (!isJson) {
-      printBanner(config, date);
+    // ── First-run banner (terminal output only) ───────────────
+    if (isTerminal) {
+      printBanner(config, range ? `${range.from} → ${range.to}` : date, filter);
     }
 
     const spinner = ora({ text: 'Scanning sessions...', color: 'cyan' });
-    if (!verbose && !isJson) spinner.start();
+    if (!verbose && isTerminal) spinner.start();
 
     try {
+      const history = opts.history !== false ? await openHistory() : null;
+
       // ── Initialize parsers ──────────────────────────────────
-      const parsers: Parser[] = [];
+      const allParsers = createParsers(config, history?.getProjectPaths() ?? []);
+      const parsers = allParsers.filter((p) => filter.tools.length === 0 || filter.tools.includes(p.name));
 
-      if (config.enabledTools.includes('opencode') && config.paths.opencodeStorage) {
-        parsers.push(new OpenCodeParser(config.paths.opencodeStorage));
-        debug(`opencode storage: ${config.paths.opencodeStorage}`);
+      if (parsers.length === 0) {
+        history?.close();
+        spinner.stop();
+        if (filter.tools.length > 0) {
+          console.error(chalk.red(`No data found for --tool ${filter.tools.join(', ')}. Run ${chalk.cyan('devday doctor')} to see what's detected.`));
+          process.exit(1);
+        }
+        printNoToolsMessage();
+        return;
       }
 
-      if (config.enabledTools.includes('claude-code') && config.paths.claudeCodeHome) {
-        parsers.push(new ClaudeCodeParser(config.paths.claudeCodeHome));
-        debug(`claude code home: ${config.paths.claudeCodeHome}`);
-      }
+      const redactors = buildRedactors(config.redactPatterns, (pattern, error) => {
+        debug(`ignoring invalid redact pattern /${pattern}/: ${error}`);
+      });
 
-      if (config.enabledTools.includes('cursor') && config.paths.cursorStateDb) {
-        parsers.push(new CursorParser(config.paths.cursorStateDb));
-        debug(`cursor db: ${config.paths.cursorStateDb}`);
-      }
+      const hasApiKey = config.preferredSummarizer !== 'none';
+      const summaryWarnings: string[] = [];
+      const logger: SummarizeLogger = {
+        debug,
+        warn: (msg: string) => {
+          debug(`[warn] ${msg}`);
+          summaryWarnings.push(msg);
+        },
+      };
 
-      if (config.enabledTools.includes('codex') && config.paths.codexHome) {
-        parsers.push(new CodexParser(config.paths.codexHome));
-        debug(`codex home: ${config.paths.codexHome}`);
-      }
+      if (range) {
+        // ── Collect each day in the range ─────────────────────
+        let rangeRecap = await collectRangeRecap(range, parsers, history, redactors, filter, config, {
+          git: opts.git !== false,
+          onDay: (day) => { spinner.text = `Scanning ${day}...`; },
+        });
+        history?.close();
+
+        if (rangeRecap.totalSessions === 0 && rangeRecap.totalCommits === 0 && outputFormat !== 'markdown' && outputFormat !== 'html') {
+          spinner.stop();
+          if (isTerminal) {
+            console.log(chalk.dim(`  No sessions found for ${range.from} → ${range.to}.`));
+            console.log('');
+          } else {
+            emitDocument(JSON.stringify({ from: range.from, to: range.to, days: [], projects: [], totalSessions: 0 }, null, 2) + '\n', opts.output);
+          }
+          return;
+        }
+
+        if (hasApiKey && opts.summarize !== false) {
+          debug(`using ${config.preferredSummarizer} for summarization`);
+          spinner.text = 'Generating summary...';
+          rangeRecap = await summarizeRange(rangeRecap, config, logger, { refresh: opts.refreshSummary });
+        } else if (!hasApiKey) {
+          debug('no API key set, skipping summarization');
+        }
 
-      if (parsers.length === 0) {
         spinner.stop();
-        printNoToolsMessage();
+
+        if (opts.standup && !hasApiKey) {
+          printStandupKeyMessage();
+          return;
+        }
+
+        if (isTerminal) {
+          renderRangeRecap(rangeRecap, { standup: opts.standup });
+        } else {
+          emitDocument(formatRangeRecap(rangeRecap, outputFormat, { standup: opts.standup }), opts.output);
+        }
+        printSummaryFooter(summaryWarnings, hasApiKey, isTerminal);
         return;
       }
 
+      // Subscription and budget totals count all spend, whatever the recap is
+      // filtered to, so their sessions are collected without the filter
+      const showsTotals = !opts.timeline && !opts.tokens && !opts.standup;
+      const planParsers = showsTotals ? allParsers.filter((p) => config.plans[p.name]) : [];
+      const budgets = showsTotals || opts.failOverBudget ? config.budgets : [];
+      const totalsParsers = budgets.length > 0 ? allParsers : planParsers;
+
       // ── Collect sessions ────────────────────────────────────
-      const allSessions: Session[] = [];
-      for (const parser of parsers) {
-        if (await parser.isAvailable()) {
-          spinner.text = `Reading ${parser.name} sessions...`;
-          debug(`scanning ${parser.name}...`);
-          const sessions = await parser.getSessions(date);
-          debug(`  found ${sessions.length} session(s) from ${parser.name}`);
-          allSessions.push(...sessions);
-        } else {
-          debug(`${parser.name} not available, skipping`);
+      const dayParsers = allParsers.filter((p) => parsers.includes(p) || totalsParsers.includes(p));
+      const daySessions = await collectSessions(dayParsers, date, history, redactors, NO_FILTER, (name) => {
+        spinner.text = `Reading ${name} sessions...`;
+      });
+      const allSessions = applyFilter(daySessions, filter);
+
+      // ── Earlier days, for subscription and budget totals ────
+      const since = [
+        ...(planParsers.length > 0 ? [monthToDate(date).from] : []),
+        ...(budgets.length > 0 ? [budgetsStart(date, budgets)!] : []),
+      ].sort()[0];
+
+      const sessionsByDay = new Map<string, Session[]>();
+      if (since && totalsParsers.length > 0) {
+        for (const day of eachDate({ from: since, to: date }).slice(0, -1)) {
+          spinner.text = `Totalling spend for ${day}...`;
+          sessionsByDay.set(day, await collectSessions(totalsParsers, day, history, redactors, NO_FILTER));
         }
       }
+      sessionsByDay.set(date, daySessions);
+      history?.close();
 
-      // ── Early exit if nothing found ─────────────────────────
-      if (allSessions.length === 0) {
+      // ── Early exit if nothing found (documents and posts still render) ──
+      if (allSessions.length === 0 && !opts.post && !opts.failOverBudget && outputFormat !== 'markdown' && outputFormat !== 'html') {
         spinner.stop();
-        if (!isJson) {
+        if (isTerminal) {
           console.log(chalk.dim(`  No sessions found for ${date}.`));
-          if (date === format(new Date(), 'yyyy-MM-dd')) {
+          if (date === today()) {
             console.log(chalk.dim('  Try: devday -d yesterday'));
           }
           console.log('');
         } else {
-          console.log(JSON.stringify({ date, projects: [], totalSessions: 0 }, null, 2));
+          emitDocument(JSON.stringify({ date, projects: [], totalSessions: 0 }, null, 2) + '\n', opts.output);
         }
         return;
       }
@@ -152,38 +434,45 @@ Supported tools:
       spinner.text = `Found ${allSessions.length} session(s). Checking git...`;
 
       // ── Collect git activity ────────────────────────────────
-      const gitActivities: GitActivity[] = [];
-      if (opts.git !== false) {
-        const projectPaths = [...new Set(allSessions.map((s) => s.projectPath).filter(Boolean))] as string[];
-        for (const projectPath of projectPaths) {
-          debug(`checking git in ${projectPath}`);
-          const git = getGitActivity(projectPath, date, config.gitAuthorFilter);
-          if (git) {
-            debug(`  ${git.commits.length} commit(s)`);
-            gitActivities.push(git);
-          }
-        }
-      }
+      const gitActivities = opts.git !== false ? await collectGitActivity(allSessions, date, config) : [];
 
       // ── Merge ───────────────────────────────────────────────
-      let recap = buildDayRecap(date, allSessions, gitActivities);
+      let recap = buildDayRecap(date, allSessions, gitActivities, config.idleThresholdMs);
+      recap.author = config.author ?? getGitIdentity();
+      const monthStart = monthToDate(date).from;
+      recap.subscriptions = buildSubscriptionUsage(
+        date,
+        config.plans,
+        planParsers.map((p) => p.name),
+        daySessions,
+        [...sessionsByDay].filter(([day]) => day >= monthStart && day < date).flatMap(([, sessions]) => sessions),
+      );
+      recap.budgets = evaluateBudgets(date, budgets, sessionsByDay);
 
-      // ── Summarize (only if API key is available) ──────────
-      const hasApiKey = config.preferredSummarizer !== 'none';
-      const summaryWarnings: string[] = [];
+      // Whatever is printed below, the exit code reports the overspend
+      const overBudget = recap.budgets.filter((b) => b.over);
+      if (opts.failOverBudget && overBudget.length > 0) {
+        debug(`over budget: ${overBudget.map((b) => describeBudget(b.budget)).join(', ')}`);
+        process.exitCode = 1;
+      }
 
+      // ── Timeline view (no summaries needed) ─────────────────
+      if (opts.timeline) {
+        spinner.stop();
+        renderTimeline(recap);
+        return;
+      }
+      if (opts.tokens) {
+        spinner.stop();
+        renderTokens(recap);
+        return;
+      }
+
+      // ── Summarize (only if API key is available) ──────────
       if (hasApiKey && opts.summarize !== false) {
         debug(`using ${config.preferredSummarizer} for summarization`);
         spinner.text = 'Generating summary...';
-
-        const logger: SummarizeLogger = {
-          debug,
-          warn: (msg: string) => {
-            debug(`[warn] ${msg}`);
-            summaryWarnings.push(msg);
-          },
-        };
-        recap = await summarizeRecap(recap, config, logger);
+        recap = await summarizeRecap(recap, config, logger, { refresh: opts.refreshSummary });
       } else if (!hasApiKey) {
         debug('no API key set, skipping summarization');
       }
@@ -192,40 +481,253 @@ Supported tools:
 
       // ── Standup without API key → exit early ────────────────
       if (opts.standup && !hasApiKey) {
-        console.log('');
-        console.log(chalk.yellow('  Standup requires an API key to generate summaries.'));
-        console.log('');
-        console.log('  Run:');
-        console.log(chalk.cyan('    export CONCENTRATE_API_KEY=sk-cn-...'));
-        console.log('');
-        console.log('  Then try again:');
-        console.log(chalk.cyan('    devday --standup'));
-        console.log('');
+        printStandupKeyMessage();
         return;
       }
 
-      // ── Render ──────────────────────────────────────────────
-      renderRecap(recap, { standup: opts.standup, json: isJson });
-
-      // Show summary warnings (auth errors, timeouts, etc.)
-      if (summaryWarnings.length > 0 && !isJson) {
-        console.log('');
-        console.log(chalk.yellow('  Summary warnings:'));
-        // Deduplicate identical errors (e.g. same auth error for every project)
-        const unique = [...new Set(summaryWarnings)];
-        for (const w of unique) {
-          console.log(chalk.dim(`    • ${w}`));
-        }
-        console.log('');
+      // ── Post or render ──────────────────────────────────────
+      if (opts.post) {
+        await postRecap(recap, config, { standup: opts.standup, dryRun: opts.dryRun });
+        printSummaryFooter(summaryWarnings, hasApiKey, isTerminal);
+        return;
+      }
+      if (isTerminal) {
+        renderRecap(recap, { standup: opts.standup });
+      } else {
+        emitDocument(formatRecap(recap, outputFormat, { standup: opts.standup }), opts.output);
       }
+      printSummaryFooter(summaryWarnings, hasApiKey, isTerminal);
+    } catch (error) {
+      spinner.stop();
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      if (verbose && error instanceof Error && error.stack) {
+        console.error(chalk.dim(error.stack));
+      }
+      process.exit(1);
+    }
+  });
+
+// ── Subcommands ───────────────────────────────────────────────────
+
+const cacheCommand = program
+  .command('cache')
+  .description('manage cached LLM summaries');
+
+cacheCommand
+  .command('clear')
+  .description('delete all cached summaries')
+  .action(() => {
+    const removed = clearSummaryCache();
+    console.log(`  Removed ${removed} cached summar${removed === 1 ? 'y' : 'ies'} from ${getSummaryCacheDir()}`);
+  });
+
+const configCommand = program
+  .command('config')
+  .description('view and edit saved preferences (API keys stay in env vars)');
+
+configCommand
+  .command('list')
+  .description('show every config key, its saved value and what it does')
+  .action(() => {
+    for (const [key, spec] of Object.entries(CONFIG_KEYS)) {
+      const value = getConfigValue(key);
+      const shown = value === undefined ? chalk.dim('(not set)') : chalk.green(formatConfigValue(value));
+      console.log(`  ${chalk.cyan(key.padEnd(24))} ${shown}`);
+      console.log(chalk.dim(`  ${''.padEnd(24)} ${spec.description}${spec.list ? ' (list)' : ''}`));
+    }
+  });
 
-      // Prompt to set API key if not configured
-      if (!hasApiKey && !isJson) {
-        console.log('');
-        console.log('  To generate AI-powered summaries and standup messages:');
-        console.log(chalk.cyan('    export CONCENTRATE_API_KEY=sk-cn-...'));
-        console.log('');
+configCommand
+  .command('get <key>')
+  .description('print a saved value')
+  .action((key: string) => {
+    runConfigAction(() => {
+      const value = getConfigValue(key);
+      if (value !== undefined) console.log(formatConfigValue(value));
+    });
+  });
+
+configCommand
+  .command('set <key> <values...>')
+  .description('save a value; list keys take one argument per item')
+  .action((key: string, values: string[]) => {
+    runConfigAction(() => {
+      const stored = setConfigValue(key, values);
+      console.log(`  ${key} = ${formatConfigValue(stored)}`);
+    });
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('remove a saved value and fall back to the default')
+  .action((key: string) => {
+    runConfigAction(() => {
+      const removed = unsetConfigValue(key);
+      console.log(removed ? `  Unset ${key}` : chalk.dim(`  ${key} was not set`));
+    });
+  });
+
+configCommand
+  .command('path')
+  .description('print the config file location')
+  .action(() => {
+    console.log(getConfigPath());
+  });
+
+program
+  .command('doctor')
+  .description('check tool detection, storage formats, git and API keys')
+  .option('--offline', 'skip the network checks for API keys')
+  .action(async (opts: { offline?: boolean }) => {
+    const config = loadConfig();
+    const history = await openHistory();
+    const knownProjects = history?.getProjectPaths() ?? [];
+    history?.close();
+
+    const problems = await runDoctor(config, { knownProjects, offline: opts.offline });
+    if (problems > 0) process.exitCode = 1;
+  });
+
+const teamCommand = program
+  .command('team')
+  .description('combine recaps exported by several developers');
+
+teamCommand
+  .command('merge <files...>')
+  .description('merge teammates\' `devday --json` exports of one day into a team recap')
+  .option('-s, --standup', 'only the team standup, attributed to each person')
+  .option('-j, --json', 'output JSON (same as --format json)')
+  .option('-f, --format <format>', 'output format: terminal, json, or markdown (default: terminal)')
+  .option('-o, --output <file>', 'write the team recap to a file; format follows the extension (.md, .json)')
+  .addHelpText('after', `
+Each developer exports their day, e.g. from a cron job or CI step:
+  $ devday -d yesterday --json -o alice.json
+
+Then anyone merges the files:
+  $ devday team merge alice.json bob.json
+  $ devday team merge exports/*.json --standup --format markdown
+
+Projects are matched by git remote URL, so clones at different paths count
+as one. Set your identity with \`devday config set author.email ...\`
+(default: git user.name / user.email).
+`)
+  .action((files: string[], opts: { standup?: boolean; json?: boolean; format?: string; output?: string }) => {
+    const format = resolveFormat(opts, 'terminal');
+    if (format === 'html') {
+      console.error(chalk.red('Team recaps can be terminal, json, or markdown.'));
+      process.exit(1);
+    }
+
+    try {
+      const team = buildTeamRecap(files.map((file) => parseTeamExport(readFileSync(file, 'utf-8'), file)));
+      if (format === 'terminal') {
+        renderTeamRecap(team, { standup: opts.standup });
+      } else {
+        emitDocument(formatTeamRecap(team, format, { standup: opts.standup }), opts.output);
       }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('digest')
+  .description('weekly recap as an HTML + plain-text email: save it as .eml or send it over SMTP')
+  .option('-w, --week [date]', 'the Monday-Sunday week containing date (default: this week)')
+  .option('-p, --project <pattern>', 'only include this project: name, path, or glob (repeatable)', collect, [])
+  .option('-o, --output <file>', 'write the email to a file, e.g. digest.eml (default: stdout)')
+  .option('--send', 'send it to digest.to and digest.cc through the configured smtp.* server')
+  .option('-v, --verbose', 'show debug output')
+  .option('--no-git', 'skip git log integration')
+  .option('--no-summarize', 'skip LLM summarization')
+  .option('--refresh-summary', 'regenerate the LLM summary instead of using a cached one')
+  .option('--no-history', 'always re-parse tool data instead of using the local history index')
+  .addHelpText('after', `
+Examples:
+  $ devday digest --week -o week.eml          open it in your mail client
+  $ devday digest --week 2026-09-14 --send    mail last week's digest
+
+Configure recipients and the server once:
+  $ devday config set digest.from me@example.com
+  $ devday config set digest.to lead@example.com team@example.com
+  $ devday config set smtp.host smtp.example.com
+  $ devday config set smtp.user me@example.com   # password: DEVDAY_SMTP_PASSWORD
+`)
+  .action(async (opts) => {
+    verbose = opts.verbose ?? false;
+    const config = loadConfig();
+    applyDayBoundary({}, config);
+    const range = resolveRange({ week: opts.week ?? true })!;
+    const filter = resolveFilter({ project: opts.project, excludeProject: [], tool: [], model: [] }, config);
+
+    if (opts.send && opts.output) {
+      console.error(chalk.red('Use either --send or -o, not both.'));
+      process.exit(1);
+    }
+    if (opts.send) {
+      const missing = [
+        ...(config.smtp ? [] : ['smtp.host']),
+        ...(config.digest.from ? [] : ['digest.from']),
+        ...(config.digest.to.length > 0 ? [] : ['digest.to']),
+      ];
+      if (missing.length > 0) {
+        console.error(chalk.red(`--send needs ${missing.join(', ')}. Set with ${chalk.cyan(`devday config set ${missing[0]} ...`)}`));
+        process.exit(1);
+      }
+    }
+
+    const spinner = ora({ text: 'Scanning sessions...', color: 'cyan' });
+    if (!verbose) spinner.start();
+
+    try {
+      const history = opts.history !== false ? await openHistory() : null;
+      const parsers = createParsers(config, history?.getProjectPaths() ?? []);
+      if (parsers.length === 0) {
+        history?.close();
+        spinner.stop();
+        printNoToolsMessage();
+        return;
+      }
+
+      const redactors = buildRedactors(config.redactPatterns, (pattern, error) => {
+        debug(`ignoring invalid redact pattern /${pattern}/: ${error}`);
+      });
+      let recap = await collectRangeRecap(range, parsers, history, redactors, filter, config, {
+        git: opts.git !== false,
+        onDay: (day) => { spinner.text = `Scanning ${day}...`; },
+      });
+      history?.close();
+
+      if (config.preferredSummarizer !== 'none' && opts.summarize !== false) {
+        spinner.text = 'Generating summary...';
+        const summaryWarnings: string[] = [];
+        const logger: SummarizeLogger = {
+          debug,
+          warn: (msg: string) => {
+            debug(`[warn] ${msg}`);
+            summaryWarnings.push(msg);
+          },
+        };
+        recap = await summarizeRange(recap, config, logger, { refresh: opts.refreshSummary });
+        // ora writes to stderr, so warnings stay out of an email printed to stdout
+        for (const warning of new Set(summaryWarnings)) spinner.warn(`Summary: ${warning}`);
+      }
+
+      const email = buildDigestEmail(recap, config.digest);
+      if (!opts.send) {
+        spinner.stop();
+        emitDocument(email.message, opts.output);
+        return;
+      }
+
+      const recipients = [...config.digest.to, ...config.digest.cc];
+      spinner.text = `Sending via ${config.smtp!.host}...`;
+      if (!verbose) spinner.start();
+      await sendMail(config.smtp!, { from: config.digest.from!, recipients }, email.message);
+      spinner.stop();
+      console.log(chalk.green(`  Sent "${email.subject}" to ${recipients.join(', ')}.`));
+      console.log('');
     } catch (error) {
       spinner.stop();
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
@@ -240,9 +742,282 @@ program.parse();
 
 // ── Helper functions ──────────────────────────────────────────────
 
+function runConfigAction(action: () => void): void {
+  try {
+    action();
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function formatConfigValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(' ') : String(value);
+}
+
+function createParsers(config: DevDayConfig, knownProjects: string[]): Parser[] {
+  const parsers: Parser[] = [];
+
+  if (config.enabledTools.includes('opencode') && config.paths.opencodeStorage) {
+    parsers.push(new OpenCodeParser(config.paths.opencodeStorage));
+    debug(`opencode storage: ${config.paths.opencodeStorage}`);
+  }
+
+  if (config.enabledTools.includes('claude-code') && config.paths.claudeCodeHome) {
+    parsers.push(new ClaudeCodeParser(config.paths.claudeCodeHome));
+    debug(`claude code home: ${config.paths.claudeCodeHome}`);
+  }
+
+  if (config.enabledTools.includes('cursor') && config.paths.cursorStateDb) {
+    parsers.push(new CursorParser(config.paths.cursorStateDb));
+    debug(`cursor db: ${config.paths.cursorStateDb}`);
+  }
+
+  if (config.enabledTools.includes('codex') && config.paths.codexHome) {
+    parsers.push(new CodexParser(config.paths.codexHome));
+    debug(`codex home: ${config.paths.codexHome}`);
+  }
+
+  if (config.enabledTools.includes('gemini-cli') && config.paths.geminiHome) {
+    parsers.push(new GeminiCliParser(config.paths.geminiHome, [...knownProjects, process.cwd()]));
+    debug(`gemini home: ${config.paths.geminiHome}`);
+  }
+
+  if (config.enabledTools.includes('aider')) {
+    // Aider writes history into each repo, so search every project we've seen
+    // sessions for, the configured roots, and the current directory.
+    const searchDirs = [...config.aiderSearchRoots, ...knownProjects, process.cwd()];
+    parsers.push(new AiderParser(searchDirs));
+    debug(`aider search dirs: ${searchDirs.length}`);
+  }
+
+  return parsers;
+}
+
+async function openHistory(): Promise<SessionHistory | null> {
+  try {
+    return await SessionHistory.open();
+  } catch (err) {
+    // A broken index should never block a recap — fall back to full parsing
+    debug(`history index unavailable: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+async function collectSessions(
+  parsers: Parser[],
+  date: string,
+  history: SessionHistory | null,
+  redactors: Redactor[],
+  filter: SessionFilter,
+  onParser?: (name: string) => void,
+): Promise<Session[]> {
+  const allSessions: Session[] = [];
+  for (const parser of parsers) {
+    if (await parser.isAvailable()) {
+      const sourceMtime = history ? await parser.getSourceMtime(date) : null;
+      const sourceKey = parser.getSourceKey?.() ?? '';
+      const cached = history && sourceMtime !== null
+        ? history.getSessions(parser.name, date, sourceMtime, sourceKey)
+        : null;
+      if (cached) {
+        debug(`${parser.name}: ${cached.length} session(s) for ${date} from history index`);
+        // The index keeps sessions as parsed, so adding or removing a pattern applies to past days too
+        redactAll(cached, redactors);
+        allSessions.push(...applyFilter(cached, filter));
+        continue;
+      }
+
+      onParser?.(parser.name);
+      debug(`scanning ${parser.name} for ${date}...`);
+      const sessions = await parser.getSessions(date);
+      debug(`  found ${sessions.length} session(s) from ${parser.name}`);
+      if (history && sourceMtime !== null) {
+        history.putSessions(parser.name, date, sourceMtime, sourceKey, sessions);
+      }
+      redactAll(sessions, redactors);
+      allSessions.push(...applyFilter(sessions, filter));
+    } else {
+      debug(`${parser.name} not available, skipping`);
+    }
+  }
+  return allSessions;
+}
+
+/** Scan and merge every day of a range; summaries are added separately */
+async function collectRangeRecap(
+  range: DateRange,
+  parsers: Parser[],
+  history: SessionHistory | null,
+  redactors: Redactor[],
+  filter: SessionFilter,
+  config: DevDayConfig,
+  options: { git: boolean; onDay?: (day: string) => void },
+): Promise<RangeRecap> {
+  const days: DayRecap[] = [];
+  for (const day of eachDate(range)) {
+    options.onDay?.(day);
+    const sessions = await collectSessions(parsers, day, history, redactors, filter);
+    const gitActivities = options.git ? await collectGitActivity(sessions, day, config) : [];
+    days.push(buildDayRecap(day, sessions, gitActivities, config.idleThresholdMs));
+  }
+  return buildRangeRecap(range.from, range.to, days);
+}
+
+function redactAll(sessions: Session[], redactors: Redactor[]): void {
+  for (const session of sessions) {
+    const count = redactSession(session, redactors);
+    if (count > 0) debug(`  redacted ${count} item(s) in ${session.tool} session ${session.id}`);
+  }
+}
+
+function applyFilter(sessions: Session[], filter: SessionFilter): Session[] {
+  return filterSessions(sessions, filter, (s, reason) =>
+    debug(`  skipping ${s.tool} session ${s.id} (${s.projectName ?? s.projectPath}): ${reason}`),
+  );
+}
+
+/** Commander accumulator for repeatable options */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/** Build the session filter from --project / --exclude-project / --tool / --model and config. Exits on unknown tools. */
+function resolveFilter(
+  opts: { project: string[]; excludeProject: string[]; tool: string[]; model: string[] },
+  config: DevDayConfig,
+): SessionFilter {
+  const unknown = opts.tool.filter((t) => !TOOL_NAMES.includes(t as ToolName));
+  if (unknown.length > 0) {
+    console.error(chalk.red(`Unknown --tool: ${unknown.join(', ')}. Supported: ${TOOL_NAMES.join(', ')}.`));
+    process.exit(1);
+  }
+  return {
+    projects: opts.project,
+    excludedProjects: [...config.excludedProjects, ...opts.excludeProject],
+    tools: opts.tool as ToolName[],
+    models: opts.model,
+  };
+}
+
+async function collectGitActivity(sessions: Session[], date: string, config: DevDayConfig): Promise<GitActivity[]> {
+  const projectPaths = [...new Set(sessions.map((s) => s.projectPath).filter(Boolean))] as string[];
+  const results = await mapWithConcurrency(projectPaths, GIT_CONCURRENCY, async (projectPath) => {
+    const filesTouched = sessions.filter((s) => s.projectPath === projectPath).flatMap((s) => s.filesTouched);
+    const git = await getGitActivity(projectPath, date, config.gitAuthorFilter, filesTouched);
+    debug(`git in ${projectPath}: ${git ? `${git.commits.length} commit(s)` : 'not a repository'}`);
+    return git;
+  });
+  return results.filter((git): git is GitActivity => git !== null);
+}
+
+/** Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight. Keeps input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function postRecap(
+  recap: DayRecap,
+  config: DevDayConfig,
+  options: { standup?: boolean; dryRun?: boolean },
+): Promise<void> {
+  const payload = buildSlackPayload(recap, { standup: options.standup });
+  if (options.dryRun) {
+    console.log(JSON.stringify(payload, null, 2));
+    return;
+  }
+
+  if (!config.slackWebhookUrl) {
+    console.error(chalk.red('No Slack webhook configured.'));
+    console.error('  Set DEVDAY_SLACK_WEBHOOK_URL or run: ' + chalk.cyan('devday config set slackWebhookUrl https://hooks.slack.com/services/...'));
+    process.exit(1);
+  }
+
+  const spinner = ora({ text: 'Posting to Slack...', color: 'cyan' });
+  if (!verbose) spinner.start();
+  try {
+    await postToSlack(config.slackWebhookUrl, payload);
+  } finally {
+    spinner.stop();
+  }
+  console.log(chalk.green(`  Posted ${options.standup ? 'standup' : 'recap'} for ${recap.date} to Slack.`));
+  console.log('');
+}
+
+function printStandupKeyMessage(): void {
+  console.log('');
+  console.log(chalk.yellow('  Standup requires an API key to generate summaries.'));
+  console.log('');
+  console.log('  Run:');
+  console.log(chalk.cyan('    export CONCENTRATE_API_KEY=sk-cn-...'));
+  console.log('');
+  console.log('  Or use a local model (Ollama, llama.cpp, vLLM):');
+  console.log(chalk.cyan('    export DEVDAY_LLM_BASE_URL=http://localhost:11434/v1'));
+  console.log('');
+  console.log('  Then try again:');
+  console.log(chalk.cyan('    devday --standup'));
+  console.log('');
+}
+
+function printSummaryFooter(summaryWarnings: string[], hasApiKey: boolean, isTerminal: boolean): void {
+  // Show summary warnings (auth errors, timeouts, etc.)
+  if (summaryWarnings.length > 0 && isTerminal) {
+    console.log('');
+    console.log(chalk.yellow('  Summary warnings:'));
+    // Deduplicate identical errors (e.g. same auth error for every project)
+    const unique = [...new Set(summaryWarnings)];
+    for (const w of unique) {
+      console.log(chalk.dim(`    • ${w}`));
+    }
+    console.log('');
+  }
+
+  // Prompt to set API key if not configured
+  if (!hasApiKey && isTerminal) {
+    console.log('');
+    console.log('  To generate AI-powered summaries and standup messages:');
+    console.log(chalk.cyan('    export CONCENTRATE_API_KEY=sk-cn-...'));
+    console.log('');
+  }
+}
+
+/**
+ * Apply --tz / --day-start (falling back to config) before any date is resolved,
+ * so "today", ranges, parsers, git and the history index all agree. Exits on invalid values.
+ */
+function applyDayBoundary(opts: { tz?: string; dayStart?: string }, config: DevDayConfig): void {
+  const timeZone = opts.tz ?? config.timeZone;
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    console.error(chalk.red(`Unknown time zone: "${timeZone}". Use an IANA name like Europe/Berlin or America/New_York.`));
+    process.exit(1);
+  }
+
+  let dayStartHour = config.dayStartHour;
+  if (opts.dayStart !== undefined) {
+    const parsed = parseDayStartHour(opts.dayStart);
+    if (parsed === null) {
+      console.error(chalk.red(`Invalid --day-start: "${opts.dayStart}". Use an hour 0-23, e.g. 4 or 04:00.`));
+      process.exit(1);
+    }
+    dayStartHour = parsed;
+  }
+
+  setDayBoundary({ timeZone: timeZone ?? null, dayStartHour });
+}
+
 function printBanner(
   config: ReturnType<typeof loadConfig>,
   date: string,
+  filter: SessionFilter,
 ): void {
   console.log('');
   console.log(chalk.bold.cyan('  devday') + chalk.dim(` v${PKG_VERSION}`));
@@ -254,6 +1029,8 @@ function printBanner(
   if (config.paths.claudeCodeHome) tools.push(chalk.green('claude code'));
   if (config.paths.cursorStateDb) tools.push(chalk.green('cursor'));
   if (config.paths.codexHome) tools.push(chalk.green('codex'));
+  if (config.paths.geminiHome) tools.push(chalk.green('gemini cli'));
+  if (config.enabledTools.includes('aider')) tools.push(chalk.green('aider'));
   if (tools.length > 0) {
     console.log(chalk.dim('  Tools: ') + tools.join(', '));
   } else {
@@ -261,8 +1038,10 @@ function printBanner(
   }
 
   // Summarizer status
-  if (config.preferredSummarizer !== 'none') {
-    console.log(chalk.dim('  Summaries: ') + chalk.green(config.preferredSummarizer));
+  if (config.preferredSummarizer === 'local' && config.localLlm) {
+    console.log(chalk.dim('  Summaries: ') + chalk.green(`local ${getSummarizerModel(config)}`) + chalk.dim(` @ ${config.localLlm.baseUrl}`));
+  } else if (config.preferredSummarizer !== 'none') {
+    console.log(chalk.dim('  Summaries: ') + chalk.green(config.preferredSummarizer) + chalk.dim(` (${getSummarizerModel(config)})`));
   } else {
     console.log(chalk.dim('  Summaries: ') + chalk.yellow('not configured'));
   }
@@ -270,7 +1049,16 @@ function printBanner(
     console.log(chalk.dim('  Linear MCP: ') + chalk.green('configured'));
   }
 
-  console.log(chalk.dim(`  Date: ${date}`));
+  const boundary = describeDayBoundary();
+  console.log(chalk.dim(`  Date: ${date}`) + (boundary ? chalk.dim(` (${boundary})`) : ''));
+  if (isFiltered(filter)) {
+    const parts = [
+      ...filter.projects.map((p) => `project ${p}`),
+      ...filter.tools.map((t) => `tool ${t}`),
+      ...filter.models.map((m) => `model ~${m}`),
+    ];
+    console.log(chalk.dim(`  Only: ${parts.join(', ')}`));
+  }
   console.log('');
 }
 
@@ -285,6 +1073,8 @@ function printNoToolsMessage(): void {
   console.log(`    ${chalk.cyan('claude code')}    ${chalk.dim(home + '/.claude/')}`);
   console.log(`    ${chalk.cyan('cursor')}          ${chalk.dim('~/Library/.../state.vscdb')}`);
   console.log(`    ${chalk.cyan('codex')}           ${chalk.dim(home + '/.codex/sessions/')}`);
+  console.log(`    ${chalk.cyan('gemini cli')}      ${chalk.dim(home + '/.gemini/tmp/')}`);
+  console.log(`    ${chalk.cyan('aider')}           ${chalk.dim('<repo>/.aider.chat.history.md')}`);
   console.log('');
   console.log('  Install a supported tool and start a coding session,');
   console.log('  then run ' + chalk.cyan('devday') + ' again.');
@@ -1,15 +1,35 @@
 import { basename } from 'node:path';
-import type { Session, GitActivity, ProjectSummary, DayRecap, ToolName } from './types.js';
+import type {
+  Session,
+  GitActivity,
+  GitCommit,
+  ProjectSummary,
+  DayRecap,
+  RangeRecap,
+  RangeProjectTotals,
+  ToolName,
+} from './types.js';
 import { sumTokens, emptyTokenUsage } from './cost.js';
+import { toProjectRelative } from './git.js';
+import { activeDurationMs, DEFAULT_IDLE_THRESHOLD_MS, measureActivity } from './activity.js';
+
+/** How long after a session ends a commit can still be credited to it */
+const COMMIT_GRACE_MS = 60 * 60 * 1000;
 
 /**
- * Merge sessions and git activity into a DayRecap.
+ * Merge sessions and git activity into a DayRecap. Active time uses
+ * `idleThresholdMs`: a longer gap between events counts as a break.
  */
 export function buildDayRecap(
   date: string,
   sessions: Session[],
   gitActivities: GitActivity[],
+  idleThresholdMs = DEFAULT_IDLE_THRESHOLD_MS,
 ): DayRecap {
+  for (const session of sessions) {
+    session.durationMs = activeDurationMs(session.activity.timestamps, idleThresholdMs);
+  }
+
   // Group sessions by project path
   const sessionsByProject = new Map<string, Session[]>();
   for (const session of sessions) {
@@ -42,9 +62,11 @@ export function buildDayRecap(
       continue;
     }
 
+    linkSessionsToCommits(projectPath, git?.repoPrefix ?? '', projectSessions, git?.commits ?? []);
+
     const totalTokens = sumTokens(...projectSessions.map((s) => s.tokens));
     const totalCostUsd = projectSessions.reduce((sum, s) => sum + s.costUsd, 0);
-    const totalDurationMs = projectSessions.reduce((sum, s) => sum + s.durationMs, 0);
+    const { activeMs: totalDurationMs, agentBusyMs } = measureActivity(projectSessions, idleThresholdMs);
     const totalMessages = projectSessions.reduce((sum, s) => sum + s.messageCount, 0);
 
     const toolsUsed = [...new Set(projectSessions.map((s) => s.tool))] as ToolName[];
@@ -66,6 +88,7 @@ export function buildDayRecap(
       totalTokens: totalTokens.total,
       totalCostUsd,
       totalDurationMs,
+      agentBusyMs,
       toolsUsed,
       modelsUsed,
       filesTouched,
@@ -81,18 +104,128 @@ export function buildDayRecap(
   const totalMessages = projects.reduce((sum, p) => sum + p.totalMessages, 0);
   const globalTokens = sumTokens(...sessions.map((s) => s.tokens));
   const totalCostUsd = projects.reduce((sum, p) => sum + p.totalCostUsd, 0);
-  const totalDurationMs = projects.reduce((sum, p) => sum + p.totalDurationMs, 0);
+  // Across projects too, so two agents running side by side count once
+  const { activeMs: totalDurationMs, agentBusyMs } = measureActivity(sessions, idleThresholdMs);
   const toolsUsed = [...new Set(projects.flatMap((p) => p.toolsUsed))] as ToolName[];
 
   return {
     date,
+    author: null, // stamped before export
     projects,
     totalSessions,
     totalMessages,
     totalTokens: globalTokens.total,
     totalCostUsd,
     totalDurationMs,
+    agentBusyMs,
     toolsUsed,
+    subscriptions: [], // filled once month-to-date usage is known
+    budgets: [],       // likewise
     standupMessage: null, // filled by summarizer
   };
 }
+
+/**
+ * Annotate sessions and commits with each other, in place.
+ * A commit is credited to a session when it touches a file the session touched
+ * and lands between the session's start and COMMIT_GRACE_MS after its end.
+ * A commit can be credited to several sessions.
+ * repoPrefix is where projectPath sits inside the repo, since commit paths are repo-relative.
+ */
+export function linkSessionsToCommits(
+  projectPath: string,
+  repoPrefix: string,
+  sessions: Session[],
+  commits: GitCommit[],
+): void {
+  for (const session of sessions) session.commitHashes = [];
+  for (const commit of commits) commit.sessionIds = [];
+
+  for (const session of sessions) {
+    const touched = new Set(
+      session.filesTouched
+        .map((file) => toProjectRelative(projectPath, file))
+        .filter((file): file is string => file !== null)
+        .map((file) => repoPrefix + file),
+    );
+    if (touched.size === 0) continue;
+
+    const from = session.startedAt.getTime();
+    const to = session.endedAt.getTime() + COMMIT_GRACE_MS;
+
+    for (const commit of commits) {
+      const at = commit.timestamp.getTime();
+      if (at < from || at > to) continue;
+      if (!commit.files.some((file) => touched.has(file))) continue;
+
+      session.commitHashes!.push(commit.hash);
+      commit.sessionIds.push(session.id);
+    }
+  }
+}
+
+/**
+ * Roll a series of per-day recaps up into a RangeRecap.
+ * Projects are keyed by path, so the same repo across days collapses into one row.
+ */
+export function buildRangeRecap(from: string, to: string, days: DayRecap[]): RangeRecap {
+  const totalsByProject = new Map<string, RangeProjectTotals>();
+
+  for (const day of days) {
+    for (const project of day.projects) {
+      let totals = totalsByProject.get(project.projectPath);
+      if (!totals) {
+        totals = {
+          projectPath: project.projectPath,
+          projectName: project.projectName,
+          activeDays: [],
+          totalSessions: 0,
+          totalMessages: 0,
+          totalTokens: 0,
+          totalCostUsd: 0,
+          totalDurationMs: 0,
+          agentBusyMs: 0,
+          totalCommits: 0,
+          totalInsertions: 0,
+          totalDeletions: 0,
+          toolsUsed: [],
+          modelsUsed: [],
+        };
+        totalsByProject.set(project.projectPath, totals);
+      }
+
+      totals.activeDays.push(day.date);
+      totals.totalSessions += project.totalSessions;
+      totals.totalMessages += project.totalMessages;
+      totals.totalTokens += project.totalTokens;
+      totals.totalCostUsd += project.totalCostUsd;
+      totals.totalDurationMs += project.totalDurationMs;
+      totals.agentBusyMs += project.agentBusyMs;
+      totals.totalCommits += project.git?.commits.length ?? 0;
+      totals.totalInsertions += project.git?.commits.reduce((sum, c) => sum + c.insertions, 0) ?? 0;
+      totals.totalDeletions += project.git?.commits.reduce((sum, c) => sum + c.deletions, 0) ?? 0;
+      totals.toolsUsed = [...new Set([...totals.toolsUsed, ...project.toolsUsed])];
+      totals.modelsUsed = [...new Set([...totals.modelsUsed, ...project.modelsUsed])];
+    }
+  }
+
+  // Sort projects by total cost (most expensive first), same as a single day
+  const projects = [...totalsByProject.values()].sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+
+  return {
+    from,
+    to,
+    days,
+    projects,
+    activeDays: days.filter((d) => d.projects.length > 0).length,
+    totalSessions: days.reduce((sum, d) => sum + d.totalSessions, 0),
+    totalMessages: days.reduce((sum, d) => sum + d.totalMessages, 0),
+    totalTokens: days.reduce((sum, d) => sum + d.totalTokens, 0),
+    totalCostUsd: days.reduce((sum, d) => sum + d.totalCostUsd, 0),
+    totalDurationMs: days.reduce((sum, d) => sum + d.totalDurationMs, 0),
+    agentBusyMs: days.reduce((sum, d) => sum + d.agentBusyMs, 0),
+    totalCommits: projects.reduce((sum, p) => sum + p.totalCommits, 0),
+    toolsUsed: [...new Set(days.flatMap((d) => d.toolsUsed))] as ToolName[],
+    narrative: null, // filled by summarizer
+  };
+}
@@ -0,0 +1,480 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { basename, isAbsolute, join, resolve } from 'node:path';
+import type { ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs } from '../activity.js';
+import { dayWindow } from '../dates.js';
+import { addModelUsage, combineCostSources, estimateSessionCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import { countFormat, emptyDiagnostics, pathCheck } from '../diagnostics.js';
+
+const CHAT_HISTORY_FILE = '.aider.chat.history.md';
+const INPUT_HISTORY_FILE = '.aider.input.history';
+
+/** One `# aider chat started at ...` block from the chat history file */
+interface AiderChatBlock {
+  startedAtMs: number;
+  lines: string[];
+}
+
+/** One entry from .aider.input.history: a timestamped user input */
+interface AiderInput {
+  ts: number;
+  text: string;
+}
+
+interface AiderTurn {
+  role: 'User' | 'Assistant';
+  text: string;
+}
+
+// ── Parser ───────────────────────────────────────────────────────
+
+/**
+ * Aider keeps no global session store — it appends to .aider.chat.history.md
+ * (and .aider.input.history) in the repo it was started from. We look for
+ * those files in every project devday already knows about plus configured roots.
+ */
+export class AiderParser implements Parser {
+  readonly name = 'aider' as const;
+  private searchDirs: string[];
+
+  /**
+   * @param searchDirs directories that may hold Aider history files directly,
+   *   or whose immediate subdirectories may (e.g. ~/code with one repo per folder)
+   */
+  constructor(searchDirs: string[]) {
+    this.searchDirs = [...new Set(searchDirs.map((d) => resolve(d)))];
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.findHistoryFiles().length > 0;
+  }
+
+  async getSourceMtime(_date: string): Promise<number | null> {
+    let latest = 0;
+    for (const filePath of this.findHistoryFiles()) {
+      try {
+        latest = Math.max(latest, statSync(filePath).mtimeMs);
+      } catch {
+        // file vanished between discovery and stat
+      }
+    }
+    return Math.floor(latest);
+  }
+
+  /** The history files found depend on the current directory and known projects */
+  getSourceKey(): string {
+    return createHash('sha1').update(this.findHistoryFiles().join('\0')).digest('hex').slice(0, 16);
+  }
+
+  async getSessions(date: string): Promise<Session[]> {
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
+
+    const sessions: Session[] = [];
+
+    for (const historyPath of this.findHistoryFiles()) {
+      let content: string;
+      try {
+        content = readFileSync(historyPath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const projectPath = resolve(historyPath, '..');
+      const inputs = this.loadInputHistory(join(projectPath, INPUT_HISTORY_FILE));
+      const blocks = this.splitChatBlocks(content);
+
+      for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i];
+        const nextStartMs = blocks[i + 1]?.startedAtMs ?? Number.POSITIVE_INFINITY;
+
+        // Inputs typed while this aider process was running
+        const blockInputs = inputs.filter((inp) => inp.ts >= block.startedAtMs && inp.ts < nextStartMs);
+        const lastInputMs = blockInputs[blockInputs.length - 1]?.ts ?? block.startedAtMs;
+
+        const overlapsDay = block.startedAtMs <= dayEndMs && lastInputMs >= dayStartMs;
+        if (!overlapsDay) continue;
+
+        const session = this.buildSession(block, blockInputs, historyPath, projectPath, dayStartMs, dayEndMs);
+        if (session) sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+
+  async diagnose(): Promise<ParserDiagnostics> {
+    const diag = emptyDiagnostics(this.searchDirs.map((dir) => pathCheck('search dir', dir)));
+
+    for (const historyPath of this.findHistoryFiles()) {
+      diag.paths.push(pathCheck('chat history', historyPath));
+      let content: string;
+      try {
+        content = readFileSync(historyPath, 'utf-8');
+      } catch {
+        diag.skipped++;
+        continue;
+      }
+
+      // Headers whose timestamp can't be read start no session
+      const headers = content.match(/^# aider chat started at .*$/gm) ?? [];
+      const blocks = this.splitChatBlocks(content);
+      diag.scanned += headers.length;
+      diag.skipped += headers.length - blocks.length;
+      countFormat(diag, 'chat sessions', blocks.length);
+
+      const inputPath = join(resolve(historyPath, '..'), INPUT_HISTORY_FILE);
+      if (existsSync(inputPath)) {
+        countFormat(diag, 'input history entries', this.loadInputHistory(inputPath).length);
+      } else {
+        diag.notes.push(`${inputPath} missing — sessions get no per-prompt timestamps`);
+      }
+    }
+
+    if (this.findHistoryFiles().length === 0) {
+      diag.notes.push(`no ${CHAT_HISTORY_FILE} in any search dir or its immediate subfolders`);
+    }
+    return diag;
+  }
+
+  // ── Discovery ───────────────────────────────────────────────────
+
+  private findHistoryFiles(): string[] {
+    const files = new Set<string>();
+
+    for (const dir of this.searchDirs) {
+      const direct = join(dir, CHAT_HISTORY_FILE);
+      if (existsSync(direct)) {
+        files.add(direct);
+        continue;
+      }
+
+      let entries;
+      try {
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+        const nested = join(dir, entry.name, CHAT_HISTORY_FILE);
+        if (existsSync(nested)) files.add(nested);
+      }
+    }
+
+    return [...files].sort();
+  }
+
+  // ── File parsing ────────────────────────────────────────────────
+
+  private splitChatBlocks(content: string): AiderChatBlock[] {
+    const blocks: AiderChatBlock[] = [];
+    let current: AiderChatBlock | null = null;
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/\s+$/, '');
+      const header = line.match(/^# aider chat started at (\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2})/);
+      if (header) {
+        const startedAtMs = this.parseLocalTimestamp(header[1]);
+        current = startedAtMs === null ? null : { startedAtMs, lines: [] };
+        if (current) blocks.push(current);
+        continue;
+      }
+      current?.lines.push(line);
+    }
+
+    return blocks;
+  }
+
+  private loadInputHistory(filePath: string): AiderInput[] {
+    if (!existsSync(filePath)) return [];
+
+    let content: string;
+    try {
+      content = readFileSync(filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const inputs: AiderInput[] = [];
+    let current: AiderInput | null = null;
+
+    for (const line of content.split('\n')) {
+      const header = line.match(/^# (\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})/);
+      if (header) {
+        const ts = this.parseLocalTimestamp(header[1]);
+        current = ts === null ? null : { ts, text: '' };
+        if (current) inputs.push(current);
+        continue;
+      }
+      if (current && line.startsWith('+')) {
+        current.text += (current.text ? '\n' : '') + line.slice(1);
+      }
+    }
+
+    return inputs.sort((a, b) => a.ts - b.ts);
+  }
+
+  // ── Build a single session ──────────────────────────────────────
+
+  private buildSession(
+    block: AiderChatBlock,
+    inputs: AiderInput[],
+    historyPath: string,
+    projectPath: string,
+    dayStartMs: number,
+    dayEndMs: number,
+  ): Session | null {
+    const turns: AiderTurn[] = [];
+    const toolSummaries: string[] = [];
+    const files = new Set<string>();
+    const models = new Set<string>();
+    const modelUsage: Record<string, ModelUsage> = {};
+    const messageTokens: TokenUsage[] = [];
+    const unpriced: { model: string | null; tokens: TokenUsage }[] = [];
+    let currentModel: string | null = null;
+    let reportedCost = 0;
+    let hasReportedCost = false;
+
+    let userLines: string[] = [];
+    let assistantLines: string[] = [];
+    let inEditBlock = false;
+
+    // A chat can run past midnight. Each prompt is dated by its input history
+    // entry (they're in the same order), and it and the replies, edits and
+    // usage that follow it only count on that day.
+    let promptIndex = -1;
+    let promptMs = block.startedAtMs;
+    const inDay = () => promptMs >= dayStartMs && promptMs <= dayEndMs;
+
+    const flushUser = () => {
+      const text = userLines.join('\n').trim();
+      userLines = [];
+      if (!text) return;
+      promptIndex++;
+      promptMs = inputs[promptIndex]?.ts ?? promptMs;
+      if (!inDay()) return;
+      // Slash commands (/add, /run, /drop...) are tool actions, not prompts
+      if (text.startsWith('/')) {
+        toolSummaries.push(text.split('\n')[0].slice(0, 100));
+      } else {
+        turns.push({ role: 'User', text });
+      }
+    };
+    const flushAssistant = () => {
+      const text = assistantLines.join('\n').trim();
+      assistantLines = [];
+      if (text && inDay()) turns.push({ role: 'Assistant', text });
+    };
+
+    for (const line of block.lines) {
+      if (line.startsWith('#### ')) {
+        flushAssistant();
+        userLines.push(line.slice(5));
+        continue;
+      }
+      flushUser();
+
+      // Keep prose, drop SEARCH/REPLACE edit bodies — they're captured as filesTouched.
+      // Checked before "> " output lines because ">>>>>>> REPLACE" starts with ">" too.
+      if (line.startsWith('<<<<<<< SEARCH')) {
+        inEditBlock = true;
+        continue;
+      }
+      if (line.startsWith('>>>>>>> REPLACE')) {
+        inEditBlock = false;
+        continue;
+      }
+      if (inEditBlock || line.startsWith('```')) continue;
+
+      if (line.startsWith('>')) {
+        this.parseToolOutputLine(line.replace(/^>\s?/, ''), projectPath, {
+          files: inDay() ? files : new Set(),
+          toolSummaries: inDay() ? toolSummaries : [],
+          setModel: (model) => {
+            if (inDay()) models.add(model);
+            currentModel = model;
+          },
+          // Each token report is for a request to the model named last
+          addUsage: (usage, costUsd) => {
+            if (!inDay()) return;
+            if (currentModel) models.add(currentModel);
+            messageTokens.push(usage);
+            if (costUsd !== null) {
+              reportedCost += costUsd;
+              hasReportedCost = true;
+              if (currentModel) addModelUsage(modelUsage, currentModel, usage, costUsd);
+            } else {
+              unpriced.push({ model: currentModel, tokens: usage });
+            }
+          },
+        });
+        continue;
+      }
+
+      assistantLines.push(line);
+    }
+    flushUser();
+    flushAssistant();
+
+    const userCount = turns.filter((t) => t.role === 'User').length;
+    const assistantCount = turns.filter((t) => t.role === 'Assistant').length;
+    if (userCount === 0 && assistantCount === 0) return null;
+
+    const tokens = sumTokens(...messageTokens);
+
+    // Aider prints what each request cost; estimate the ones it didn't
+    const fallbackModel = [...models][0];
+    const estimates = unpriced.map(({ model, tokens: usage }) => {
+      const priceAs = model ?? fallbackModel;
+      const estimate = estimateSessionCost(priceAs ? [priceAs] : [], usage, dayStartMs);
+      if (model) addModelUsage(modelUsage, model, usage, estimate.costUsd);
+      return estimate;
+    });
+    const costUsd = estimates.reduce((sum, estimate) => sum + estimate.costUsd, reportedCost);
+    const costSource = combineCostSources(
+      hasReportedCost ? 'reported' : 'computed',
+      ...estimates.map((estimate) => estimate.source),
+    );
+
+    // ── Timestamps from the input history ──────────────────────
+    const timestamps = [block.startedAtMs, ...inputs.map((inp) => inp.ts)]
+      .filter((ts) => ts >= dayStartMs && ts <= dayEndMs)
+      .sort((a, b) => a - b);
+
+    const startedAtMs = timestamps[0] ?? Math.max(dayStartMs, block.startedAtMs);
+    const endedAtMs = timestamps[timestamps.length - 1] ?? startedAtMs;
+
+    // ── Digest ─────────────────────────────────────────────────
+    const digestParts = turns.map((t) => {
+      const truncated = t.text.length > 500 ? t.text.slice(0, 500) + '...' : t.text;
+      return `[${t.role}]: ${truncated}`;
+    });
+    let conversationDigest = digestParts.join('\n\n');
+    if (conversationDigest.length > 4000) {
+      conversationDigest = conversationDigest.slice(0, 4000) + '\n\n[...truncated]';
+    }
+
+    const firstPrompt = turns.find((t) => t.role === 'User')?.text ?? null;
+    const title = firstPrompt ? this.truncatePrompt(firstPrompt) : null;
+
+    return {
+      id: this.sessionId(historyPath, block.startedAtMs),
+      tool: 'aider',
+      projectPath,
+      projectName: basename(projectPath),
+      title,
+      startedAt: new Date(startedAtMs),
+      endedAt: new Date(endedAtMs),
+      durationMs: activeDurationMs(timestamps),
+      activity: { timestamps, busy: [] },
+      messageCount: userCount + assistantCount,
+      userMessageCount: userCount,
+      assistantMessageCount: assistantCount,
+      summary: null,
+      topics: title ? [title] : [],
+      tokens,
+      costUsd,
+      costSource,
+      models: [...models],
+      modelUsage,
+      filesTouched: [...files],
+      conversationDigest,
+      toolCallSummaries: [...new Set(toolSummaries)],
+    };
+  }
+
+  /**
+   * Interpret one `> ...` line aider printed to the terminal:
+   * model banner, applied edits, commits, shell runs, and token/cost reports.
+   */
+  private parseToolOutputLine(
+    line: string,
+    projectPath: string,
+    acc: {
+      files: Set<string>;
+      toolSummaries: string[];
+      setModel: (model: string) => void;
+      addUsage: (tokens: TokenUsage, costUsd: number | null) => void;
+    },
+  ): void {
+    // "Model: gpt-4o with diff edit format" / "Main model: claude-3-5-sonnet-20241022 with ..."
+    const model = line.match(/^(?:Main )?[Mm]odels?: (\S+)/);
+    if (model) {
+      acc.setModel(model[1].replace(/[,;]$/, ''));
+      return;
+    }
+
+    const applied = line.match(/^Applied edit to (.+)$/);
+    if (applied) {
+      const rel = applied[1].trim();
+      const abs = isAbsolute(rel) ? rel : join(projectPath, rel);
+      acc.files.add(abs);
+      acc.toolSummaries.push(`edit ${rel}`);
+      return;
+    }
+
+    const commit = line.match(/^Commit ([0-9a-f]{7,40}) (.+)$/);
+    if (commit) {
+      acc.toolSummaries.push(`commit ${commit[1]}: ${commit[2].slice(0, 80)}`);
+      return;
+    }
+
+    const run = line.match(/^Running (.+)$/);
+    if (run) {
+      acc.toolSummaries.push(`bash: ${run[1].slice(0, 80)}`);
+      return;
+    }
+
+    // "Tokens: 12k sent, 2.0k cache write, 8.5k cache hit, 345 received. Cost: $0.02 message, $0.05 session."
+    // Older releases say "request" instead of "message".
+    if (line.startsWith('Tokens:')) {
+      const sent = line.match(/([\d.,]+[kKmM]?) sent/);
+      const received = line.match(/([\d.,]+[kKmM]?) received/);
+      const cacheWrite = line.match(/([\d.,]+[kKmM]?) cache write/);
+      const cacheHit = line.match(/([\d.,]+[kKmM]?) cache hit/);
+      const tokens = emptyTokenUsage();
+      if (sent) tokens.input = this.parseTokenCount(sent[1]);
+      if (received) tokens.output = this.parseTokenCount(received[1]);
+      if (cacheWrite) tokens.cacheWrite = this.parseTokenCount(cacheWrite[1]);
+      if (cacheHit) tokens.cacheRead = this.parseTokenCount(cacheHit[1]);
+      tokens.total = tokens.input + tokens.output + tokens.cacheRead + tokens.cacheWrite;
+
+      const cost = line.match(/Cost: \$([\d.]+) (?:message|request)/);
+      acc.addUsage(tokens, cost ? parseFloat(cost[1]) || 0 : null);
+    }
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────
+
+  /** "2.1k" → 2100, "1,234" → 1234, "1.2M" → 1200000 */
+  private parseTokenCount(raw: string): number {
+    const cleaned = raw.replace(/,/g, '');
+    const value = parseFloat(cleaned);
+    if (Number.isNaN(value)) return 0;
+    const suffix = cleaned.slice(-1).toLowerCase();
+    if (suffix === 'k') return Math.round(value * 1_000);
+    if (suffix === 'm') return Math.round(value * 1_000_000);
+    return Math.round(value);
+  }
+
+  /** Aider writes local wall-clock time without a zone: "2024-05-01 10:23:45" */
+  private parseLocalTimestamp(raw: string): number | null {
+    const match = raw.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+    const [, y, mo, d, h, mi, s] = match.map(Number);
+    const ms = new Date(y, mo - 1, d, h, mi, s).getTime();
+    return Number.isNaN(ms) ? null : ms;
+  }
+
+  private sessionId(historyPath: string, startedAtMs: number): string {
+    return createHash('sha1').update(`${historyPath}\0${startedAtMs}`).digest('hex').slice(0, 16);
+  }
+
+  private truncatePrompt(prompt: string): string {
+    const clean = prompt.replace(/\n/g, ' ').trim();
+    if (clean.length <= 60) return clean;
+    return clean.slice(0, 57) + '...';
+  }
+}
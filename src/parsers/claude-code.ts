@@ -1,9 +1,12 @@
-import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { join, basename } from 'node:path';
 import { homedir } from 'node:os';
 import { ReadonlyDatabase } from '../db.js';
-import type { Parser, Session, TokenUsage } from '../types.js';
-import { estimateCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import type { Interval, ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs, busySpan } from '../activity.js';
+import { dayWindow } from '../dates.js';
+import { addModelUsage, estimateModelUsageCost, emptyTokenUsage, sumTokens, type CostEstimate } from '../cost.js';
+import { countFormat, countJsonlLines, emptyDiagnostics, pathCheck } from '../diagnostics.js';
 
 // ── Raw shapes from Claude Code storage ──────────────────────────
 
@@ -104,13 +107,100 @@ export class ClaudeCodeParser implements Parser {
     );
   }
 
+  async getSourceMtime(_date: string): Promise<number | null> {
+    const projectsDir = join(this.claudeHome, 'projects');
+    if (!existsSync(projectsDir)) return null;
+
+    // Stat every session log and index — far cheaper than parsing them
+    let latest = 0;
+    const dbPath = join(this.claudeHome, '__store.db');
+    if (existsSync(dbPath)) latest = statSync(dbPath).mtimeMs;
+
+    for (const projDir of readdirSync(projectsDir, { withFileTypes: true })) {
+      if (!projDir.isDirectory()) continue;
+      const projPath = join(projectsDir, projDir.name);
+      for (const file of readdirSync(projPath)) {
+        if (!file.endsWith('.jsonl') && file !== 'sessions-index.json') continue;
+        try {
+          latest = Math.max(latest, statSync(join(projPath, file)).mtimeMs);
+        } catch {
+          // file vanished between readdir and stat
+        }
+      }
+    }
+
+    return Math.floor(latest);
+  }
+
+  async diagnose(): Promise<ParserDiagnostics> {
+    const projectsDir = join(this.claudeHome, 'projects');
+    const dbPath = join(this.claudeHome, '__store.db');
+    const diag = emptyDiagnostics([
+      pathCheck('home', this.claudeHome),
+      pathCheck('projects dir', projectsDir),
+      pathCheck('__store.db (optional)', dbPath),
+    ]);
+    if (!existsSync(projectsDir)) return diag;
+
+    if (existsSync(dbPath)) {
+      try {
+        const db = await ReadonlyDatabase.open(dbPath);
+        try {
+          const [row] = db.all<{ n: number }>('SELECT COUNT(*) AS n FROM assistant_messages');
+          countFormat(diag, '__store.db assistant rows', row?.n ?? 0);
+        } finally {
+          db.close();
+        }
+      } catch (err) {
+        diag.notes.push(`__store.db unreadable, cost/duration fall back to JSONL: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    let unindexed = 0;
+    let missingTranscripts = 0;
+    for (const projDir of readdirSync(projectsDir, { withFileTypes: true })) {
+      if (!projDir.isDirectory()) continue;
+      const projPath = join(projectsDir, projDir.name);
+
+      const indexPath = join(projPath, 'sessions-index.json');
+      if (!existsSync(indexPath)) {
+        unindexed++;
+      } else {
+        diag.scanned++;
+        try {
+          const index = JSON.parse(readFileSync(indexPath, 'utf-8')) as CCSessionsIndex;
+          countFormat(diag, `sessions-index v${index.version ?? '?'}`);
+          missingTranscripts += index.entries.filter((e) => !existsSync(e.fullPath)).length;
+        } catch {
+          diag.skipped++;
+        }
+      }
+
+      for (const file of readdirSync(projPath)) {
+        if (!file.endsWith('.jsonl')) continue;
+        try {
+          const [parsed, malformed] = countJsonlLines(readFileSync(join(projPath, file), 'utf-8'));
+          countFormat(diag, 'jsonl lines', parsed);
+          diag.scanned += parsed + malformed;
+          diag.skipped += malformed;
+        } catch {
+          diag.skipped++;
+        }
+      }
+    }
+
+    if (unindexed > 0) {
+      diag.notes.push(`${unindexed} project folder(s) have no sessions-index.json and are not read`);
+    }
+    if (missingTranscripts > 0) {
+      diag.notes.push(`${missingTranscripts} indexed session(s) point at a missing .jsonl transcript`);
+    }
+    return diag;
+  }
+
   async getSessions(date: string): Promise<Session[]> {
-    // Build day boundaries in local time
-    const [year, month, day] = date.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59, 999);
-    const dayStartMs = dayStart.getTime();
-    const dayEndMs = dayEnd.getTime();
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
 
     const projectsDir = join(this.claudeHome, 'projects');
     if (!existsSync(projectsDir)) return [];
@@ -233,42 +323,39 @@ export class ClaudeCodeParser implements Parser {
       const totalMessages = assistantRows.length + userRows.length;
       if (totalMessages === 0) return null;
 
-      // Aggregate cost and duration
+      // Aggregate cost; the DB records how long each response took
       let totalCost = 0;
-      let totalDurationMs = 0;
-      const MAX_MSG_DURATION_MS = 5 * 60 * 1000;
+      const busy: Interval[] = [];
       const models = new Set<string>();
-      const totalTokens = emptyTokenUsage();
+      const modelUsage: Record<string, ModelUsage> = {};
+      const messageTokens: TokenUsage[] = [];
 
       for (const row of assistantRows) {
         if (row.cost_usd) totalCost += row.cost_usd;
-        if (row.duration_ms) {
-          totalDurationMs += Math.min(row.duration_ms, MAX_MSG_DURATION_MS);
-        }
-        if (row.model) models.add(row.model);
+        if (row.duration_ms) busy.push(busySpan(row.timestamp, row.duration_ms));
 
         // Parse usage from the full message JSON
+        let usage = emptyTokenUsage();
         try {
           const msg = JSON.parse(row.message) as { usage?: Record<string, number> };
-          if (msg.usage) {
-            const u = msg.usage;
-            totalTokens.input += u.input_tokens ?? 0;
-            totalTokens.output += u.output_tokens ?? 0;
-            totalTokens.cacheRead += u.cache_read_input_tokens ?? 0;
-            totalTokens.cacheWrite += u.cache_creation_input_tokens ?? 0;
-          }
+          if (msg.usage) usage = this.usageToTokens(msg.usage);
         } catch {
           // skip
         }
+        messageTokens.push(usage);
+
+        if (row.model) {
+          models.add(row.model);
+          addModelUsage(modelUsage, row.model, usage, row.cost_usd ?? 0);
+        }
       }
 
-      totalTokens.total = totalTokens.input + totalTokens.output + totalTokens.cacheRead + totalTokens.cacheWrite;
+      const totalTokens = sumTokens(...messageTokens);
 
       // If no cost from DB, estimate from tokens
-      if (totalCost === 0 && totalTokens.total > 0 && models.size > 0) {
-        const model = [...models][0];
-        totalCost = estimateCost(model, totalTokens);
-      }
+      const cost: CostEstimate = totalCost > 0
+        ? { costUsd: totalCost, source: 'reported' }
+        : estimateModelUsageCost(modelUsage, totalTokens, dayStartMs);
 
       // Extract content from JSONL for conversation digest
       const contentExtraction = this.extractContentFromJsonl(entry.fullPath, dayStartMs, dayEndMs);
@@ -289,15 +376,18 @@ export class ClaudeCodeParser implements Parser {
         title: entry.summary ?? this.truncatePrompt(entry.firstPrompt) ?? null,
         startedAt: new Date(earliest),
         endedAt: new Date(latest),
-        durationMs: totalDurationMs,
+        durationMs: activeDurationMs(allTimestamps),
+        activity: { timestamps: allTimestamps, busy },
         messageCount: totalMessages,
         userMessageCount: userRows.length,
         assistantMessageCount: assistantRows.length,
         summary: entry.summary ?? null,
         topics: entry.summary ? [entry.summary] : [],
         tokens: totalTokens,
-        costUsd: totalCost,
+        costUsd: cost.costUsd,
+        costSource: cost.source,
         models: [...models],
+        modelUsage,
         filesTouched: contentExtraction.filesTouched,
         conversationDigest: contentExtraction.conversationDigest,
         toolCallSummaries: contentExtraction.toolCallSummaries,
@@ -321,43 +411,31 @@ export class ClaudeCodeParser implements Parser {
     const messages = this.parseJsonlFile(entry.fullPath, dayStartMs, dayEndMs);
     if (messages.user.length === 0 && messages.assistant.length === 0) return null;
 
-    const MAX_MSG_DURATION_MS = 5 * 60 * 1000;
     const models = new Set<string>();
-    const totalTokens = emptyTokenUsage();
-    let totalCost = 0;
-    let totalDurationMs = 0;
+    const modelUsage: Record<string, ModelUsage> = {};
+    const messageTokens: TokenUsage[] = [];
 
     // Deduplicate assistant messages by message.id (streaming chunks)
     const dedupedAssistant = this.deduplicateAssistant(messages.assistant);
 
     for (const msg of dedupedAssistant) {
-      if (msg.message.model) models.add(msg.message.model);
-      if (msg.message.usage) {
-        const u = msg.message.usage;
-        totalTokens.input += u.input_tokens ?? 0;
-        totalTokens.output += u.output_tokens ?? 0;
-        totalTokens.cacheRead += u.cache_read_input_tokens ?? 0;
-        totalTokens.cacheWrite += u.cache_creation_input_tokens ?? 0;
+      const usage = msg.message.usage ? this.usageToTokens(msg.message.usage) : emptyTokenUsage();
+      messageTokens.push(usage);
+      if (msg.message.model) {
+        models.add(msg.message.model);
+        addModelUsage(modelUsage, msg.message.model, usage);
       }
     }
 
-    totalTokens.total = totalTokens.input + totalTokens.output + totalTokens.cacheRead + totalTokens.cacheWrite;
+    const totalTokens = sumTokens(...messageTokens);
+    const cost = estimateModelUsageCost(modelUsage, totalTokens, dayStartMs);
 
-    if (totalTokens.total > 0 && models.size > 0) {
-      totalCost = estimateCost([...models][0], totalTokens);
-    }
-
-    // Estimate duration from timestamp gaps between consecutive messages
+    // JSONL has no response durations, only when each message was written
     const allTimestamps = [
       ...messages.user.map((m) => new Date(m.timestamp).getTime()),
       ...messages.assistant.map((m) => new Date(m.timestamp).getTime()),
     ].sort((a, b) => a - b);
 
-    for (let i = 1; i < allTimestamps.length; i++) {
-      const gap = allTimestamps[i] - allTimestamps[i - 1];
-      totalDurationMs += Math.min(gap, MAX_MSG_DURATION_MS);
-    }
-
     const contentExtraction = this.extractContentFromMessages(messages, dayStartMs, dayEndMs);
 
     const earliest = Math.max(dayStartMs, allTimestamps[0] ?? dayStartMs);
@@ -371,15 +449,18 @@ export class ClaudeCodeParser implements Parser {
       title: entry.summary ?? this.truncatePrompt(entry.firstPrompt) ?? null,
       startedAt: new Date(earliest),
       endedAt: new Date(latest),
-      durationMs: totalDurationMs,
+      durationMs: activeDurationMs(allTimestamps),
+      activity: { timestamps: allTimestamps, busy: [] },
       messageCount: messages.user.length + dedupedAssistant.length,
       userMessageCount: messages.user.length,
       assistantMessageCount: dedupedAssistant.length,
       summary: entry.summary ?? null,
       topics: entry.summary ? [entry.summary] : [],
       tokens: totalTokens,
-      costUsd: totalCost,
+      costUsd: cost.costUsd,
+      costSource: cost.source,
       models: [...models],
+      modelUsage,
       filesTouched: contentExtraction.filesTouched,
       conversationDigest: contentExtraction.conversationDigest,
       toolCallSummaries: contentExtraction.toolCallSummaries,
@@ -507,7 +588,7 @@ export class ClaudeCodeParser implements Parser {
             const input = block.input ?? {};
             let summary = block.name;
 
-            const filePath = (input.filePath ?? input.path ?? input.file) as string | undefined;
+            const filePath = (input.file_path ?? input.filePath ?? input.path ?? input.file) as string | undefined;
             const command = input.command as string | undefined;
             const pattern = input.pattern as string | undefined;
 
@@ -548,6 +629,15 @@ export class ClaudeCodeParser implements Parser {
 
   // ── Helpers ─────────────────────────────────────────────────────
 
+  /** Anthropic API usage block → TokenUsage */
+  private usageToTokens(u: Record<string, number | undefined>): TokenUsage {
+    const input = u.input_tokens ?? 0;
+    const output = u.output_tokens ?? 0;
+    const cacheRead = u.cache_read_input_tokens ?? 0;
+    const cacheWrite = u.cache_creation_input_tokens ?? 0;
+    return { input, output, reasoning: 0, cacheRead, cacheWrite, total: input + output + cacheRead + cacheWrite };
+  }
+
   private truncatePrompt(prompt: string | undefined): string | null {
     if (!prompt) return null;
     const clean = prompt.replace(/\n/g, ' ').trim();
@@ -1,8 +1,12 @@
-import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
 import { basename, join } from 'node:path';
 import { homedir } from 'node:os';
-import type { Parser, Session, TokenUsage } from '../types.js';
-import { estimateCost, emptyTokenUsage } from '../cost.js';
+import { format } from 'date-fns';
+import type { ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs } from '../activity.js';
+import { dayWindow, eachDate } from '../dates.js';
+import { addModelUsage, estimateModelUsageCost, emptyTokenUsage } from '../cost.js';
+import { countFormat, countJsonlLines, emptyDiagnostics, pathCheck } from '../diagnostics.js';
 
 interface ChatEvent {
   ts: number;
@@ -18,6 +22,7 @@ interface ToolEvent {
 
 interface TokenSnapshot {
   ts: number;
+  model: string | null;       // model of the turn the snapshot closes
   input: number;
   cachedInput: number;
   output: number;
@@ -37,12 +42,24 @@ export class CodexParser implements Parser {
     return existsSync(this.getSessionsDir());
   }
 
+  async getSourceMtime(date: string): Promise<number | null> {
+    if (!existsSync(this.getSessionsDir())) return null;
+
+    let latest = 0;
+    for (const filePath of this.findSessionFilesForDate(date)) {
+      try {
+        latest = Math.max(latest, statSync(filePath).mtimeMs);
+      } catch {
+        // file vanished between readdir and stat
+      }
+    }
+
+    return Math.floor(latest);
+  }
+
   async getSessions(date: string): Promise<Session[]> {
-    const [year, month, day] = date.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59, 999);
-    const dayStartMs = dayStart.getTime();
-    const dayEndMs = dayEnd.getTime();
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
 
     const files = this.findSessionFilesForDate(date);
     const sessions: Session[] = [];
@@ -58,6 +75,69 @@ export class CodexParser implements Parser {
     return sessions;
   }
 
+  async diagnose(): Promise<ParserDiagnostics> {
+    const sessionsDir = this.getSessionsDir();
+    const diag = emptyDiagnostics([
+      pathCheck('home', this.codexHome),
+      pathCheck('sessions dir', sessionsDir),
+    ]);
+    if (!existsSync(sessionsDir)) return diag;
+
+    const checkFile = (filePath: string, format: string) => {
+      let raw: string;
+      try {
+        raw = readFileSync(filePath, 'utf-8');
+      } catch {
+        diag.skipped++;
+        return;
+      }
+      if (filePath.endsWith('.jsonl')) {
+        const [parsed, malformed] = countJsonlLines(raw);
+        diag.scanned += parsed + malformed;
+        diag.skipped += malformed;
+      } else {
+        diag.scanned++;
+        try {
+          JSON.parse(raw);
+        } catch {
+          diag.skipped++;
+          return;
+        }
+      }
+      countFormat(diag, format);
+    };
+
+    let unrecognized = 0;
+    for (const entry of readdirSync(sessionsDir, { withFileTypes: true })) {
+      const entryPath = join(sessionsDir, entry.name);
+      if (entry.isFile()) {
+        if (!/^rollout-\d{4}-\d{2}-\d{2}/.test(entry.name)) unrecognized++;
+        else if (entry.name.endsWith('.json')) checkFile(entryPath, 'legacy json (flat)');
+        else if (entry.name.endsWith('.jsonl')) checkFile(entryPath, 'jsonl (flat)');
+        continue;
+      }
+      if (!entry.isDirectory() || !/^\d{4}$/.test(entry.name)) continue;
+
+      // sessions/YYYY/MM/DD/*.jsonl
+      for (const month of readdirSync(entryPath, { withFileTypes: true })) {
+        if (!month.isDirectory()) continue;
+        for (const day of readdirSync(join(entryPath, month.name), { withFileTypes: true })) {
+          if (!day.isDirectory()) continue;
+          const dayDir = join(entryPath, month.name, day.name);
+          for (const file of readdirSync(dayDir)) {
+            if (file.endsWith('.jsonl')) checkFile(join(dayDir, file), 'jsonl (dated folders)');
+            else if (file.endsWith('.json')) checkFile(join(dayDir, file), 'legacy json (dated folders)');
+          }
+        }
+      }
+    }
+
+    if (unrecognized > 0) {
+      diag.notes.push(`${unrecognized} file(s) in sessions/ don't match rollout-YYYY-MM-DD* and are not read`);
+    }
+    return diag;
+  }
+
   private getSessionsDir(): string {
     return join(this.codexHome, 'sessions');
   }
@@ -66,11 +146,16 @@ export class CodexParser implements Parser {
     const sessionsDir = this.getSessionsDir();
     if (!existsSync(sessionsDir)) return [];
 
-    const [year, month, day] = date.split('-');
+    // Codex names folders and files by the machine's local date, which can differ
+    // from the recap day when a time zone or day-start hour is configured
+    const { startMs, endMs } = dayWindow(date);
+    const localDates = eachDate({ from: format(startMs, 'yyyy-MM-dd'), to: format(endMs, 'yyyy-MM-dd') });
     const files = new Set<string>();
 
-    const dayDir = join(sessionsDir, year, month, day);
-    if (existsSync(dayDir)) {
+    for (const localDate of localDates) {
+      const [year, month, day] = localDate.split('-');
+      const dayDir = join(sessionsDir, year, month, day);
+      if (!existsSync(dayDir)) continue;
       for (const entry of readdirSync(dayDir, { withFileTypes: true })) {
         if (!entry.isFile()) continue;
         if (!entry.name.endsWith('.jsonl') && !entry.name.endsWith('.json')) continue;
@@ -81,7 +166,7 @@ export class CodexParser implements Parser {
     // Legacy sessions were stored directly under ~/.codex/sessions.
     for (const entry of readdirSync(sessionsDir, { withFileTypes: true })) {
       if (!entry.isFile()) continue;
-      if (!entry.name.startsWith(`rollout-${date}`)) continue;
+      if (!localDates.some((localDate) => entry.name.startsWith(`rollout-${localDate}`))) continue;
       if (!entry.name.endsWith('.jsonl') && !entry.name.endsWith('.json')) continue;
       files.add(join(sessionsDir, entry.name));
     }
@@ -97,6 +182,7 @@ export class CodexParser implements Parser {
     let projectPath: string | null = null;
 
     const models = new Set<string>();
+    let currentModel: string | null = null;
     const eventChats: ChatEvent[] = [];
     const legacyChats: ChatEvent[] = [];
     const toolEvents: ToolEvent[] = [];
@@ -132,7 +218,10 @@ export class CodexParser implements Parser {
       if (entryType === 'turn_context') {
         const payload = this.asObject(entryObj?.payload);
         const model = this.asString(payload?.model);
-        if (model) models.add(model);
+        if (model) {
+          models.add(model);
+          currentModel = model;
+        }
 
         if (!projectPath) {
           const cwd = this.asString(payload?.cwd);
@@ -159,7 +248,7 @@ export class CodexParser implements Parser {
             eventChats.push({ ts, role: 'Assistant', text: message });
           }
         } else if (eventType === 'token_count') {
-          const snap = this.extractTokenSnapshot(payload, ts);
+          const snap = this.extractTokenSnapshot(payload, ts, currentModel);
           if (snap) tokenSnapshots.push(snap);
         }
       }
@@ -244,12 +333,10 @@ export class CodexParser implements Parser {
     }
 
     const tokenUsage = this.computeDayTokenUsage(tokenSnapshots, dayStartMs, dayEndMs);
+    const modelUsage = this.computeDayModelUsage(tokenSnapshots, dayStartMs, dayEndMs);
     const modelList = [...models];
 
-    let costUsd = 0;
-    if (tokenUsage.total > 0 && modelList.length > 0) {
-      costUsd = estimateCost(modelList[0], tokenUsage);
-    }
+    const cost = estimateModelUsageCost(modelUsage, tokenUsage, dayStartMs);
 
     const title = this.inferTitle(chats);
     const conversationDigest = this.buildConversationDigest(dayChats);
@@ -273,7 +360,6 @@ export class CodexParser implements Parser {
     const startedAtMs = timestamps[0] ?? Math.max(dayStartMs, earliestTs);
     const endedAtMs = timestamps[timestamps.length - 1] ?? Math.min(dayEndMs, latestTs);
 
-    const durationMs = this.estimateDurationMs(timestamps);
     const userCount = dayChats.filter((m) => m.role === 'User').length;
     const assistantCount = dayChats.filter((m) => m.role === 'Assistant').length;
 
@@ -287,15 +373,18 @@ export class CodexParser implements Parser {
       title,
       startedAt: new Date(startedAtMs),
       endedAt: new Date(endedAtMs),
-      durationMs,
+      durationMs: activeDurationMs(timestamps),
+      activity: { timestamps, busy: [] },
       messageCount: dayChats.length,
       userMessageCount: userCount,
       assistantMessageCount: assistantCount,
       summary: title,
       topics: title ? [title] : [],
       tokens: tokenUsage,
-      costUsd,
+      costUsd: cost.costUsd,
+      costSource: cost.source,
       models: modelList,
+      modelUsage,
       filesTouched: [...filesTouchedSet],
       conversationDigest,
       toolCallSummaries: [...toolSummariesSet],
@@ -378,6 +467,7 @@ export class CodexParser implements Parser {
       startedAt: new Date(sessionTs),
       endedAt: new Date(sessionTs),
       durationMs: 0,
+      activity: { timestamps: [sessionTs], busy: [] },
       messageCount: chats.length,
       userMessageCount: userCount,
       assistantMessageCount: assistantCount,
@@ -385,7 +475,9 @@ export class CodexParser implements Parser {
       topics: title ? [title] : [],
       tokens: emptyTokenUsage(),
       costUsd: 0,
+      costSource: 'guessed', // legacy sessions don't record token usage
       models: [],
+      modelUsage: {},
       filesTouched: [...filesTouchedSet],
       conversationDigest,
       toolCallSummaries: [...toolSummariesSet],
@@ -437,7 +529,11 @@ export class CodexParser implements Parser {
     return null;
   }
 
-  private extractTokenSnapshot(payload: Record<string, unknown> | null, ts: number | null): TokenSnapshot | null {
+  private extractTokenSnapshot(
+    payload: Record<string, unknown> | null,
+    ts: number | null,
+    model: string | null,
+  ): TokenSnapshot | null {
     if (ts === null || !payload) return null;
 
     const info = this.asObject(payload.info);
@@ -446,6 +542,7 @@ export class CodexParser implements Parser {
 
     return {
       ts,
+      model,
       input: this.asNumber(totals.input_tokens),
       cachedInput: this.asNumber(totals.cached_input_tokens),
       output: this.asNumber(totals.output_tokens),
@@ -461,7 +558,29 @@ export class CodexParser implements Parser {
     if (!end) return emptyTokenUsage();
 
     const start = this.lastBefore(sorted, dayStartMs);
+    return this.snapshotDelta(start, end);
+  }
 
+  /**
+   * Split the day's usage by model: each snapshot's growth over the one
+   * before it belongs to the model of the turn it closed.
+   */
+  private computeDayModelUsage(snapshots: TokenSnapshot[], dayStartMs: number, dayEndMs: number): Record<string, ModelUsage> {
+    const sorted = [...snapshots].sort((a, b) => a.ts - b.ts);
+    const modelUsage: Record<string, ModelUsage> = {};
+
+    let previous = this.lastBefore(sorted, dayStartMs);
+    for (const snap of sorted) {
+      if (snap.ts < dayStartMs || snap.ts > dayEndMs) continue;
+      const delta = this.snapshotDelta(previous, snap);
+      previous = snap;
+      if (snap.model && delta.total > 0) addModelUsage(modelUsage, snap.model, delta);
+    }
+    return modelUsage;
+  }
+
+  /** Usage between two cumulative snapshots; codex counts cached input inside input */
+  private snapshotDelta(start: TokenSnapshot | null, end: TokenSnapshot): TokenUsage {
     const inputDelta = Math.max(0, end.input - (start?.input ?? 0));
     const cachedDelta = Math.max(0, end.cachedInput - (start?.cachedInput ?? 0));
     const output = Math.max(0, end.output - (start?.output ?? 0));
@@ -536,20 +655,6 @@ export class CodexParser implements Parser {
     return digest;
   }
 
-  private estimateDurationMs(timestamps: number[]): number {
-    if (timestamps.length < 2) return 0;
-
-    const MAX_GAP_MS = 5 * 60 * 1000;
-    let durationMs = 0;
-
-    for (let i = 1; i < timestamps.length; i++) {
-      const gap = timestamps[i] - timestamps[i - 1];
-      if (gap > 0) durationMs += Math.min(gap, MAX_GAP_MS);
-    }
-
-    return durationMs;
-  }
-
   private summarizeToolCall(name: string, args: unknown): string {
     const argsObj = this.asObject(args);
 
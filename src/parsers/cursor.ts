@@ -2,8 +2,11 @@ import { existsSync, statSync } from 'node:fs';
 import { basename, dirname, join } from 'node:path';
 import { homedir } from 'node:os';
 import { ReadonlyDatabase } from '../db.js';
-import type { Parser, Session } from '../types.js';
-import { estimateCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import type { Interval, ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs, busySpan } from '../activity.js';
+import { dayWindow } from '../dates.js';
+import { addModelUsage, estimateModelUsageCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import { countFormat, emptyDiagnostics, pathCheck } from '../diagnostics.js';
 
 // ── Raw shapes from Cursor storage ───────────────────────────────
 
@@ -89,13 +92,84 @@ export class CursorParser implements Parser {
     return existsSync(this.dbPath);
   }
 
+  async getSourceMtime(_date: string): Promise<number | null> {
+    if (!existsSync(this.dbPath)) return null;
+
+    // Cursor keeps recent writes in the WAL until checkpointing
+    let latest = statSync(this.dbPath).mtimeMs;
+    const walPath = `${this.dbPath}-wal`;
+    if (existsSync(walPath)) latest = Math.max(latest, statSync(walPath).mtimeMs);
+
+    return Math.floor(latest);
+  }
+
+  async diagnose(): Promise<ParserDiagnostics> {
+    const diag = emptyDiagnostics([
+      pathCheck('state db', this.dbPath),
+      pathCheck('write-ahead log (optional)', `${this.dbPath}-wal`),
+    ]);
+    if (!existsSync(this.dbPath)) return diag;
+
+    let db: ReadonlyDatabase;
+    try {
+      db = await ReadonlyDatabase.open(this.dbPath);
+    } catch (err) {
+      diag.notes.push(`cannot open database: ${err instanceof Error ? err.message : err}`);
+      return diag;
+    }
+
+    try {
+      const tables = db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table'").map((t) => t.name);
+      if (!tables.includes('cursorDiskKV')) {
+        diag.notes.push('no cursorDiskKV table — this Cursor version stores chats elsewhere and is not supported');
+        return diag;
+      }
+
+      const decode = (value: string | Uint8Array) =>
+        typeof value === 'string' ? value : new TextDecoder().decode(value);
+
+      for (const row of db.all<{ value: string | Uint8Array }>(
+        "SELECT value FROM cursorDiskKV WHERE key LIKE 'composerData:%'",
+      )) {
+        diag.scanned++;
+        let composer: CursorComposerData;
+        try {
+          composer = JSON.parse(decode(row.value)) as CursorComposerData;
+        } catch {
+          diag.skipped++;
+          continue;
+        }
+        const version = composer._v !== undefined ? ` (_v ${composer._v})` : '';
+        if (Array.isArray(composer.conversation) && composer.conversation.length > 0) {
+          countFormat(diag, `v1 inline conversation${version}`);
+        } else if (composer.fullConversationHeadersOnly?.length) {
+          countFormat(diag, `v3 fullConversationHeadersOnly${version}`);
+        } else {
+          countFormat(diag, `empty composer${version}`);
+        }
+      }
+
+      for (const row of db.all<{ value: string | Uint8Array }>(
+        "SELECT value FROM cursorDiskKV WHERE key LIKE 'bubbleId:%'",
+      )) {
+        diag.scanned++;
+        try {
+          JSON.parse(decode(row.value));
+          countFormat(diag, 'v3 bubble rows');
+        } catch {
+          diag.skipped++;
+        }
+      }
+    } finally {
+      db.close();
+    }
+
+    return diag;
+  }
+
   async getSessions(date: string): Promise<Session[]> {
-    // Build day boundaries in local time
-    const [year, month, day] = date.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59, 999);
-    const dayStartMs = dayStart.getTime();
-    const dayEndMs = dayEnd.getTime();
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
 
     let db: ReadonlyDatabase;
     try {
@@ -265,7 +339,6 @@ export class CursorParser implements Parser {
     dayStartMs: number,
     dayEndMs: number,
   ): Session | null {
-    const MAX_MSG_DURATION_MS = 5 * 60 * 1000;
     const home = homedir();
 
     const userBubbles = bubbles.filter((b) => b.type === 1);
@@ -284,45 +357,31 @@ export class CursorParser implements Parser {
     }
 
     // ── Token aggregation ─────────────────────────────────────
-    const totalTokens = emptyTokenUsage();
+    const modelUsage: Record<string, ModelUsage> = {};
+    const bubbleTokens: TokenUsage[] = [];
     for (const b of aiBubbles) {
-      if (b.tokenCount) {
-        totalTokens.input += b.tokenCount.inputTokens ?? 0;
-        totalTokens.output += b.tokenCount.outputTokens ?? 0;
-      }
+      const tokens = emptyTokenUsage();
+      tokens.input = b.tokenCount?.inputTokens ?? 0;
+      tokens.output = b.tokenCount?.outputTokens ?? 0;
+      tokens.total = tokens.input + tokens.output;
+      bubbleTokens.push(tokens);
+
+      const model = b.modelInfo?.modelName ?? composer.modelConfig?.modelName;
+      if (model) addModelUsage(modelUsage, model, tokens);
     }
-    totalTokens.total = totalTokens.input + totalTokens.output;
+    const totalTokens = sumTokens(...bubbleTokens);
 
     // ── Cost estimation ───────────────────────────────────────
-    let totalCost = 0;
-    if (totalTokens.total > 0 && models.size > 0) {
-      totalCost = estimateCost([...models][0], totalTokens);
-    }
+    const cost = estimateModelUsageCost(modelUsage, totalTokens, dayStartMs);
 
-    // ── Duration ──────────────────────────────────────────────
-    let totalDurationMs = 0;
+    // ── Busy spans ────────────────────────────────────────────
+    // Cursor records when each request was sent and when the response finished
+    const busy: Interval[] = [];
     for (const b of aiBubbles) {
       const ti = b.timingInfo;
       if (ti?.clientRpcSendTime && ti?.clientEndTime) {
         const dur = ti.clientEndTime - ti.clientRpcSendTime;
-        if (dur > 0) {
-          totalDurationMs += Math.min(dur, MAX_MSG_DURATION_MS);
-        }
-      }
-    }
-
-    // Fallback: if no timingInfo, estimate from timestamp gaps
-    if (totalDurationMs === 0 && bubbles.length > 1) {
-      const timestamps = bubbles
-        .map((b) => this.getBubbleTimestamp(b, composer))
-        .filter((t): t is number => t !== null)
-        .sort((a, b) => a - b);
-
-      for (let i = 1; i < timestamps.length; i++) {
-        const gap = timestamps[i] - timestamps[i - 1];
-        if (gap > 0) {
-          totalDurationMs += Math.min(gap, MAX_MSG_DURATION_MS);
-        }
+        if (dur > 0) busy.push(busySpan(ti.clientEndTime, dur));
       }
     }
 
@@ -398,15 +457,18 @@ export class CursorParser implements Parser {
       title,
       startedAt: new Date(earliest),
       endedAt: new Date(latest),
-      durationMs: totalDurationMs,
+      durationMs: activeDurationMs(allTimestamps),
+      activity: { timestamps: allTimestamps, busy },
       messageCount: bubbles.length,
       userMessageCount: userBubbles.length,
       assistantMessageCount: aiBubbles.length,
       summary: composer.name ?? null,
       topics,
       tokens: totalTokens,
-      costUsd: totalCost,
+      costUsd: cost.costUsd,
+      costSource: cost.source,
       models: displayModels,
+      modelUsage,
       filesTouched: [...files],
       conversationDigest,
       toolCallSummaries: uniqueToolSummaries,
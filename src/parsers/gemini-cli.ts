@@ -0,0 +1,542 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join } from 'node:path';
+import { homedir } from 'node:os';
+import type { CostSource, ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs } from '../activity.js';
+import { dayWindow } from '../dates.js';
+import { addModelUsage, combineCostSources, estimateCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import { countFormat, emptyDiagnostics, pathCheck } from '../diagnostics.js';
+
+// ── Raw shapes from Gemini CLI storage ───────────────────────────
+//
+// ~/.gemini/tmp/<sha256(project root)>/
+//   chats/session-<ts>-<id>.json   full chat recording (newer releases)
+//   logs.json                      user prompts only, every release
+//   checkpoint-<tag>.json          history saved with `/chat save <tag>`
+
+/** chats/session-*.json */
+interface GeminiConversationRecord {
+  sessionId: string;
+  projectHash?: string;
+  startTime?: string;    // ISO 8601
+  lastUpdated?: string;  // ISO 8601
+  messages: GeminiRecordedMessage[];
+}
+
+interface GeminiRecordedMessage {
+  id?: string;
+  timestamp: string;     // ISO 8601
+  type: 'user' | 'gemini' | 'info' | 'error' | 'warning' | string;
+  content?: string | GeminiPart[];
+  model?: string;
+  tokens?: {
+    input?: number;      // prompt tokens, including cached
+    output?: number;
+    cached?: number;
+    thoughts?: number;
+    tool?: number;
+    total?: number;
+  };
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    args?: Record<string, unknown>;
+    status?: string;
+    timestamp?: string;
+  }>;
+}
+
+/** logs.json entry */
+interface GeminiLogEntry {
+  sessionId: string;
+  messageId?: number;
+  type: string;          // 'user'
+  message: string;
+  timestamp: string;     // ISO 8601
+}
+
+/** checkpoint-*.json is a list of Gemini API Content objects */
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts?: GeminiPart[];
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: unknown;
+}
+
+interface GeminiTurn {
+  ts: number;
+  role: 'User' | 'Assistant';
+  text: string;
+}
+
+interface GeminiToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// ── Parser ───────────────────────────────────────────────────────
+
+export class GeminiCliParser implements Parser {
+  readonly name = 'gemini-cli' as const;
+  private geminiHome: string;
+  private projectsByHash: Map<string, string>;
+
+  /**
+   * @param knownProjects project roots seen from other tools. Gemini CLI names its
+   *   per-project folders by sha256 of the root path, so this is how we map them back.
+   */
+  constructor(geminiHome: string, knownProjects: string[]) {
+    this.geminiHome = geminiHome;
+    this.projectsByHash = new Map(
+      knownProjects.map((p) => [createHash('sha256').update(p).digest('hex'), p]),
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return existsSync(this.getTmpDir());
+  }
+
+  async getSourceMtime(_date: string): Promise<number | null> {
+    const tmpDir = this.getTmpDir();
+    if (!existsSync(tmpDir)) return null;
+
+    let latest = 0;
+    for (const projectDir of this.listProjectDirs()) {
+      for (const filePath of [...this.listJsonFiles(projectDir), ...this.listJsonFiles(join(projectDir, 'chats'))]) {
+        try {
+          latest = Math.max(latest, statSync(filePath).mtimeMs);
+        } catch {
+          // file vanished between readdir and stat
+        }
+      }
+    }
+    return Math.floor(latest);
+  }
+
+  /**
+   * Sessions are stored with the project their folder maps back to, so a
+   * folder becoming known (or unknown) has to re-parse the days it covers
+   */
+  getSourceKey(): string {
+    const mapped = this.listProjectDirs()
+      .map((dir) => basename(dir))
+      .filter((hash) => this.projectsByHash.has(hash))
+      .map((hash) => `${hash}=${this.projectsByHash.get(hash)}`)
+      .sort();
+    return createHash('sha1').update(mapped.join('\0')).digest('hex').slice(0, 16);
+  }
+
+  async getSessions(date: string): Promise<Session[]> {
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
+
+    const sessions: Session[] = [];
+
+    for (const projectDir of this.listProjectDirs()) {
+      const knownPath = this.projectsByHash.get(basename(projectDir)) ?? null;
+
+      // 1. Full chat recordings
+      const recorded = new Set<string>();
+      for (const filePath of this.listJsonFiles(join(projectDir, 'chats'))) {
+        const record = this.readJson<GeminiConversationRecord>(filePath);
+        if (!record?.sessionId || !Array.isArray(record.messages)) continue;
+        recorded.add(record.sessionId);
+
+        const session = this.buildSessionFromRecord(record, knownPath, dayStartMs, dayEndMs);
+        if (session) sessions.push(session);
+      }
+
+      // 2. Older releases: prompts from logs.json, replies from any saved checkpoint
+      const logs = this.readJson<GeminiLogEntry[]>(join(projectDir, 'logs.json'));
+      if (!Array.isArray(logs)) continue;
+
+      const logsBySession = new Map<string, GeminiLogEntry[]>();
+      for (const entry of logs) {
+        if (!entry?.sessionId || recorded.has(entry.sessionId)) continue;
+        if (!logsBySession.has(entry.sessionId)) logsBySession.set(entry.sessionId, []);
+        logsBySession.get(entry.sessionId)!.push(entry);
+      }
+
+      for (const [sessionId, entries] of logsBySession) {
+        const session = this.buildSessionFromLogs(sessionId, entries, projectDir, knownPath, dayStartMs, dayEndMs);
+        if (session) sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+
+  async diagnose(): Promise<ParserDiagnostics> {
+    const diag = emptyDiagnostics([
+      pathCheck('home', this.geminiHome),
+      pathCheck('tmp dir', this.getTmpDir()),
+    ]);
+
+    let unmapped = 0;
+    for (const projectDir of this.listProjectDirs()) {
+      if (!this.projectsByHash.has(basename(projectDir))) unmapped++;
+
+      for (const filePath of this.listJsonFiles(join(projectDir, 'chats'))) {
+        diag.scanned++;
+        const record = this.readJson<GeminiConversationRecord>(filePath);
+        if (record?.sessionId && Array.isArray(record.messages)) countFormat(diag, 'chat recordings');
+        else diag.skipped++;
+      }
+
+      for (const filePath of this.listJsonFiles(projectDir)) {
+        const name = basename(filePath);
+        if (name !== 'logs.json' && !name.startsWith('checkpoint-')) continue;
+        diag.scanned++;
+        const data = this.readJson<unknown[]>(filePath);
+        if (!Array.isArray(data)) diag.skipped++;
+        else if (name === 'logs.json') countFormat(diag, 'legacy logs.json entries', data.length);
+        else countFormat(diag, 'legacy checkpoints');
+      }
+    }
+
+    if (unmapped > 0) {
+      diag.notes.push(
+        `${unmapped} project folder(s) don't match a known project path; their root is guessed from tool-call paths`,
+      );
+    }
+    return diag;
+  }
+
+  // ── Chat recording → Session ───────────────────────────────────
+
+  private buildSessionFromRecord(
+    record: GeminiConversationRecord,
+    knownPath: string | null,
+    dayStartMs: number,
+    dayEndMs: number,
+  ): Session | null {
+    const dayMessages = record.messages.filter((m) => {
+      const ts = this.parseIsoMs(m.timestamp);
+      return ts !== null && ts >= dayStartMs && ts <= dayEndMs;
+    });
+    if (dayMessages.length === 0) return null;
+
+    const turns: GeminiTurn[] = [];
+    const toolCalls: GeminiToolCall[] = [];
+    const models = new Set<string>();
+    const modelUsage: Record<string, ModelUsage> = {};
+    const tokenUsages: TokenUsage[] = [];
+    let costUsd = 0;
+    const costSources: CostSource[] = [];
+
+    for (const msg of dayMessages) {
+      const ts = this.parseIsoMs(msg.timestamp)!;
+      const text = this.contentText(msg.content);
+
+      if (msg.type === 'user' && text) {
+        turns.push({ ts, role: 'User', text });
+      } else if (msg.type === 'gemini') {
+        if (text) turns.push({ ts, role: 'Assistant', text });
+        if (msg.model) models.add(msg.model);
+
+        for (const call of msg.toolCalls ?? []) {
+          if (call?.name) toolCalls.push({ name: call.name, args: call.args ?? {} });
+        }
+
+        const usage = msg.tokens ? this.recordTokens(msg.tokens) : emptyTokenUsage();
+        tokenUsages.push(usage);
+        // Price each turn with the model that produced it
+        let turnCostUsd = 0;
+        if (usage.total > 0) {
+          const cost = msg.model ? estimateCost(msg.model, this.billedTokens(usage), ts) : { costUsd: 0, source: 'guessed' as const };
+          turnCostUsd = cost.costUsd;
+          costUsd += cost.costUsd;
+          costSources.push(cost.source);
+        }
+        if (msg.model) addModelUsage(modelUsage, msg.model, usage, turnCostUsd);
+      }
+    }
+
+    if (turns.length === 0 && toolCalls.length === 0) return null;
+
+    const projectPath = knownPath ?? this.projectPathFromToolCalls(toolCalls);
+    const timestamps = dayMessages.map((m) => this.parseIsoMs(m.timestamp)!).sort((a, b) => a - b);
+
+    return this.assembleSession({
+      id: record.sessionId,
+      projectPath,
+      turns,
+      toolCalls,
+      models: [...models],
+      modelUsage,
+      tokens: sumTokens(...tokenUsages),
+      costUsd,
+      costSource: combineCostSources('computed', ...costSources),
+      timestamps,
+    });
+  }
+
+  // ── logs.json (+ checkpoint) → Session ─────────────────────────
+
+  private buildSessionFromLogs(
+    sessionId: string,
+    entries: GeminiLogEntry[],
+    projectDir: string,
+    knownPath: string | null,
+    dayStartMs: number,
+    dayEndMs: number,
+  ): Session | null {
+    const dayEntries = entries
+      .map((e) => ({ entry: e, ts: this.parseIsoMs(e.timestamp) }))
+      .filter((e): e is { entry: GeminiLogEntry; ts: number } => e.ts !== null && e.ts >= dayStartMs && e.ts <= dayEndMs)
+      .sort((a, b) => a.ts - b.ts);
+    if (dayEntries.length === 0) return null;
+
+    const turns: GeminiTurn[] = [];
+    const toolCalls: GeminiToolCall[] = [];
+    const savedTags: string[] = [];
+
+    for (const { entry, ts } of dayEntries) {
+      const text = entry.message?.trim();
+      if (!text) continue;
+
+      // Slash commands are CLI actions, not prompts
+      if (text.startsWith('/')) {
+        const save = text.match(/^\/chat\s+save\s+(\S+)/);
+        if (save) savedTags.push(save[1]);
+        continue;
+      }
+      turns.push({ ts, role: 'User', text });
+    }
+
+    // `/chat save <tag>` wrote the full history (model replies + function calls)
+    // to checkpoint-<tag>.json; use the last one saved in this session.
+    const tag = savedTags[savedTags.length - 1];
+    if (tag) {
+      const checkpoint = this.readJson<GeminiContent[]>(join(projectDir, `checkpoint-${tag}.json`));
+      if (Array.isArray(checkpoint)) {
+        const lastTs = dayEntries[dayEntries.length - 1].ts;
+        for (const content of checkpoint) {
+          if (content?.role !== 'model') continue;
+          const text = this.contentText(content.parts);
+          // Checkpoints carry no timestamps — place replies at the save
+          if (text) turns.push({ ts: lastTs, role: 'Assistant', text });
+          for (const part of content.parts ?? []) {
+            if (part.functionCall?.name) {
+              toolCalls.push({ name: part.functionCall.name, args: part.functionCall.args ?? {} });
+            }
+          }
+        }
+      }
+    }
+
+    if (turns.length === 0) return null;
+
+    const projectPath = knownPath ?? this.projectPathFromToolCalls(toolCalls);
+
+    return this.assembleSession({
+      id: sessionId,
+      projectPath,
+      turns: turns.sort((a, b) => a.ts - b.ts),
+      toolCalls,
+      models: [],
+      modelUsage: {},
+      tokens: emptyTokenUsage(),
+      costUsd: 0,
+      costSource: 'guessed', // checkpoint logs don't record token usage
+      timestamps: dayEntries.map((e) => e.ts),
+    });
+  }
+
+  // ── Shared session assembly ─────────────────────────────────────
+
+  private assembleSession(input: {
+    id: string;
+    projectPath: string | null;
+    turns: GeminiTurn[];
+    toolCalls: GeminiToolCall[];
+    models: string[];
+    modelUsage: Record<string, ModelUsage>;
+    tokens: TokenUsage;
+    costUsd: number;
+    costSource: CostSource;
+    timestamps: number[];
+  }): Session {
+    const { turns, toolCalls, timestamps } = input;
+
+    const files = new Set<string>();
+    const toolSummaries: string[] = [];
+    for (const call of toolCalls) {
+      toolSummaries.push(this.summarizeToolCall(call));
+      for (const file of this.filesFromToolCall(call)) files.add(file);
+    }
+
+    const digestParts = turns.map((t) => {
+      const truncated = t.text.length > 500 ? t.text.slice(0, 500) + '...' : t.text;
+      return `[${t.role}]: ${truncated}`;
+    });
+    let conversationDigest = digestParts.join('\n\n');
+    if (conversationDigest.length > 4000) {
+      conversationDigest = conversationDigest.slice(0, 4000) + '\n\n[...truncated]';
+    }
+
+    const firstPrompt = turns.find((t) => t.role === 'User')?.text;
+    const title = firstPrompt ? this.truncatePrompt(firstPrompt) : null;
+    const userCount = turns.filter((t) => t.role === 'User').length;
+    const assistantCount = turns.filter((t) => t.role === 'Assistant').length;
+
+    return {
+      id: input.id,
+      tool: 'gemini-cli',
+      projectPath: input.projectPath,
+      projectName: input.projectPath ? basename(input.projectPath) : null,
+      title,
+      startedAt: new Date(timestamps[0]),
+      endedAt: new Date(timestamps[timestamps.length - 1]),
+      durationMs: activeDurationMs(timestamps),
+      activity: { timestamps, busy: [] },
+      messageCount: userCount + assistantCount,
+      userMessageCount: userCount,
+      assistantMessageCount: assistantCount,
+      summary: null,
+      topics: title ? [title] : [],
+      tokens: input.tokens,
+      costUsd: input.costUsd,
+      costSource: input.costSource,
+      models: input.models,
+      modelUsage: input.modelUsage,
+      filesTouched: [...files],
+      conversationDigest,
+      toolCallSummaries: [...new Set(toolSummaries)],
+    };
+  }
+
+  // ── Tool calls ──────────────────────────────────────────────────
+
+  private summarizeToolCall(call: GeminiToolCall): string {
+    const command = this.asString(call.args.command);
+    if (command) return `bash: ${command.slice(0, 80)}`;
+
+    const filePath = this.asString(call.args.file_path) ?? this.asString(call.args.absolute_path) ?? this.asString(call.args.path);
+    if (filePath) return `${call.name} ${this.shortenPath(filePath)}`;
+
+    const pattern = this.asString(call.args.pattern);
+    if (pattern) return `${call.name}: ${pattern}`;
+
+    return call.name;
+  }
+
+  private filesFromToolCall(call: GeminiToolCall): string[] {
+    const files: string[] = [];
+    for (const key of ['file_path', 'absolute_path']) {
+      const value = this.asString(call.args[key]);
+      if (value && isAbsolute(value)) files.push(value);
+    }
+    if (Array.isArray(call.args.paths)) {
+      for (const value of call.args.paths) {
+        if (typeof value === 'string' && isAbsolute(value)) files.push(value);
+      }
+    }
+    return files;
+  }
+
+  /** Walk up from any absolute path a tool touched until we hit a git root */
+  private projectPathFromToolCalls(calls: GeminiToolCall[]): string | null {
+    for (const call of calls) {
+      for (const candidate of [...this.filesFromToolCall(call), this.asString(call.args.directory)]) {
+        if (!candidate || !isAbsolute(candidate)) continue;
+        let current = candidate;
+        while (true) {
+          if (existsSync(join(current, '.git'))) return current;
+          const parent = dirname(current);
+          if (parent === current) break;
+          current = parent;
+        }
+      }
+    }
+    return null;
+  }
+
+  // ── Helpers ─────────────────────────────────────────────────────
+
+  private getTmpDir(): string {
+    return join(this.geminiHome, 'tmp');
+  }
+
+  private listProjectDirs(): string[] {
+    const tmpDir = this.getTmpDir();
+    if (!existsSync(tmpDir)) return [];
+    return readdirSync(tmpDir, { withFileTypes: true })
+      .filter((d) => d.isDirectory())
+      .map((d) => join(tmpDir, d.name));
+  }
+
+  private listJsonFiles(dir: string): string[] {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => join(dir, f));
+  }
+
+  private readJson<T>(filePath: string): T | null {
+    if (!existsSync(filePath)) return null;
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Gemini reports prompt tokens inclusive of cached ones; split them out */
+  private recordTokens(tokens: NonNullable<GeminiRecordedMessage['tokens']>): TokenUsage {
+    const cacheRead = tokens.cached ?? 0;
+    const input = Math.max(0, (tokens.input ?? 0) - cacheRead) + (tokens.tool ?? 0);
+    const output = tokens.output ?? 0;
+    const reasoning = tokens.thoughts ?? 0;
+    return {
+      input,
+      output,
+      reasoning,
+      cacheRead,
+      cacheWrite: 0,
+      total: input + output + reasoning + cacheRead,
+    };
+  }
+
+  /** Thinking isn't in Gemini's output count but is billed at the output rate */
+  private billedTokens(usage: TokenUsage): TokenUsage {
+    return { ...usage, output: usage.output + usage.reasoning };
+  }
+
+  private contentText(content: string | GeminiPart[] | undefined): string {
+    if (typeof content === 'string') return content.trim();
+    if (!Array.isArray(content)) return '';
+    return content
+      .filter((p) => typeof p?.text === 'string' && !p.thought)
+      .map((p) => p.text!.trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private shortenPath(pathValue: string): string {
+    const home = homedir();
+    return pathValue.startsWith(home) ? '~' + pathValue.slice(home.length) : pathValue;
+  }
+
+  private parseIsoMs(value: string | undefined): number | null {
+    if (!value) return null;
+    const ms = new Date(value).getTime();
+    return Number.isNaN(ms) ? null : ms;
+  }
+
+  private asString(value: unknown): string | null {
+    return typeof value === 'string' ? value : null;
+  }
+
+  private truncatePrompt(prompt: string): string {
+    const clean = prompt.replace(/\n/g, ' ').trim();
+    if (clean.length <= 60) return clean;
+    return clean.slice(0, 57) + '...';
+  }
+}
@@ -1,8 +1,11 @@
-import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { join, basename } from 'node:path';
 import { homedir } from 'node:os';
-import type { Parser, Session, TokenUsage } from '../types.js';
-import { estimateCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import type { CostSource, Interval, ModelUsage, Parser, ParserDiagnostics, Session, TokenUsage } from '../types.js';
+import { activeDurationMs, busySpan } from '../activity.js';
+import { dayWindow } from '../dates.js';
+import { addModelUsage, combineCostSources, estimateCost, emptyTokenUsage, sumTokens } from '../cost.js';
+import { countFormat, emptyDiagnostics, pathCheck } from '../diagnostics.js';
 
 // ── Raw JSON shapes from OpenCode storage ────────────────────────
 
@@ -90,14 +93,68 @@ export class OpenCodeParser implements Parser {
     return existsSync(this.storagePath) && existsSync(join(this.storagePath, 'project'));
   }
 
+  async getSourceMtime(_date: string): Promise<number | null> {
+    // Session files are rewritten (time.updated) whenever a message is added,
+    // so they stand in for the much larger message/ and part/ trees.
+    const sessionRoot = join(this.storagePath, 'session');
+    if (!existsSync(sessionRoot)) return null;
+
+    let latest = 0;
+    for (const projectDir of readdirSync(sessionRoot, { withFileTypes: true })) {
+      if (!projectDir.isDirectory()) continue;
+      const dir = join(sessionRoot, projectDir.name);
+      for (const file of readdirSync(dir)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+          latest = Math.max(latest, statSync(join(dir, file)).mtimeMs);
+        } catch {
+          // file vanished between readdir and stat
+        }
+      }
+    }
+
+    return Math.floor(latest);
+  }
+
+  async diagnose(): Promise<ParserDiagnostics> {
+    const kinds = ['project', 'session', 'message', 'part'] as const;
+    const diag = emptyDiagnostics([
+      pathCheck('storage', this.storagePath),
+      ...kinds.map((kind) => pathCheck(`${kind}/`, join(this.storagePath, kind))),
+    ]);
+
+    // project/*.json, and {session,message,part}/<parent id>/*.json
+    for (const kind of kinds) {
+      const root = join(this.storagePath, kind);
+      if (!existsSync(root)) continue;
+
+      const dirs = kind === 'project'
+        ? [root]
+        : readdirSync(root, { withFileTypes: true }).filter((d) => d.isDirectory()).map((d) => join(root, d.name));
+
+      for (const dir of dirs) {
+        for (const file of readdirSync(dir)) {
+          if (!file.endsWith('.json')) continue;
+          diag.scanned++;
+          try {
+            JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+            countFormat(diag, `${kind} files`);
+          } catch {
+            diag.skipped++;
+          }
+        }
+      }
+    }
+
+    if (!existsSync(join(this.storagePath, 'project'))) {
+      diag.notes.push('no project/ directory — devday treats opencode as not installed');
+    }
+    return diag;
+  }
+
   async getSessions(date: string): Promise<Session[]> {
-    // Parse YYYY-MM-DD and build day boundaries in local time manually.
-    // Avoids date-fns startOfDay/endOfDay which can mishandle timezones.
-    const [year, month, day] = date.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59, 999);
-    const dayStartMs = dayStart.getTime();
-    const dayEndMs = dayEnd.getTime();
+    // Recap-day boundaries (time zone and day-start hour aware)
+    const { startMs: dayStartMs, endMs: dayEndMs } = dayWindow(date);
 
     // 1. Load all projects
     const projects = this.loadProjects();
@@ -111,13 +168,13 @@ export class OpenCodeParser implements Parser {
 
       for (const ocSession of ocSessions) {
         // Filter by date: session must overlap with the target day
-        const sessionCreated = new Date(ocSession.time.created);
-        const sessionUpdated = new Date(ocSession.time.updated);
+        const sessionCreated = ocSession.time.created;
+        const sessionUpdated = ocSession.time.updated;
 
         const overlapsDay =
-          (sessionCreated >= dayStart && sessionCreated <= dayEnd) ||
-          (sessionUpdated >= dayStart && sessionUpdated <= dayEnd) ||
-          (sessionCreated <= dayStart && sessionUpdated >= dayEnd);
+          (sessionCreated >= dayStartMs && sessionCreated <= dayEndMs) ||
+          (sessionUpdated >= dayStartMs && sessionUpdated <= dayEndMs) ||
+          (sessionCreated <= dayStartMs && sessionUpdated >= dayEndMs);
 
         if (!overlapsDay) continue;
 
@@ -153,25 +210,32 @@ export class OpenCodeParser implements Parser {
         const tokenUsages: TokenUsage[] = dayMessages.map((m) => this.messageToTokens(m));
         const totalTokens = sumTokens(...tokenUsages);
 
-        // Cost estimation (OpenCode cost field is always 0)
+        // Cost estimation (OpenCode cost field is always 0), per model
         let totalCost = 0;
+        const costSources: CostSource[] = [];
+        const modelUsage: Record<string, ModelUsage> = {};
         for (const msg of assistantMessages) {
-          if (msg.modelID && msg.tokens) {
-            totalCost += estimateCost(msg.modelID, this.messageToTokens(msg));
+          if (!msg.modelID) continue;
+          const tokens = this.messageToTokens(msg);
+          let costUsd = 0;
+          if (msg.tokens) {
+            const cost = estimateCost(msg.modelID, tokens, msg.time.created);
+            costUsd = cost.costUsd;
+            totalCost += cost.costUsd;
+            costSources.push(cost.source);
           }
+          addModelUsage(modelUsage, msg.modelID, tokens, costUsd);
         }
 
         // 5. Extract content: files touched, conversation text, tool call summaries
         const contentExtraction = this.extractSessionContent(dayMessages);
 
-        // 6. Duration — sum actual message processing times, not wall-clock span
-        //    Each message has created → completed timestamps representing active time.
-        //    Clamp to target day boundaries to avoid cross-day inflation.
-        //    Cap individual message duration at 5 minutes — no single LLM response
-        //    should take longer; OpenCode sometimes writes bogus completed timestamps
-        //    (e.g. reconciliation when session is loaded days later).
-        const MAX_MSG_DURATION_MS = 5 * 60 * 1000; // 5 minutes
-        let durationMs = 0;
+        // 6. Activity — each message has created → completed timestamps; the
+        //    span between them is time the agent spent on it. Clamp to the day
+        //    window, and let busySpan cap bogus completions (OpenCode sometimes
+        //    reconciles them when a session is loaded days later).
+        const timestamps: number[] = [];
+        const busy: Interval[] = [];
         let earliestTs = Infinity;
         let latestTs = -Infinity;
 
@@ -181,8 +245,9 @@ export class OpenCodeParser implements Parser {
             ? Math.min(dayEndMs, msg.time.completed)
             : start; // no completion = instant
 
+          timestamps.push(start, end);
           if (end > start) {
-            durationMs += Math.min(end - start, MAX_MSG_DURATION_MS);
+            busy.push(busySpan(end, end - start));
           }
 
           if (msg.time.created < earliestTs) earliestTs = msg.time.created;
@@ -208,7 +273,8 @@ export class OpenCodeParser implements Parser {
           title: ocSession.title ?? ocSession.slug ?? null,
           startedAt: new Date(earliest),
           endedAt: new Date(latest),
-          durationMs,
+          durationMs: activeDurationMs(timestamps),
+          activity: { timestamps, busy },
           messageCount: dayMessages.length,
           userMessageCount: userMessages.length,
           assistantMessageCount: assistantMessages.length,
@@ -216,7 +282,9 @@ export class OpenCodeParser implements Parser {
           topics,
           tokens: totalTokens,
           costUsd: totalCost,
+          costSource: combineCostSources('computed', ...costSources),
           models,
+          modelUsage,
           filesTouched: contentExtraction.filesTouched,
           conversationDigest: contentExtraction.conversationDigest,
           toolCallSummaries: contentExtraction.toolCallSummaries,
@@ -0,0 +1,239 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfigDir } from './config.js';
+import type { ModelPricing, PricingTable } from './types.js';
+
+const PRICING_FILE = join(getConfigDir(), 'pricing.json');
+
+// Tools append snapshot dates to model names: claude-sonnet-4-20250514, gpt-4o-2024-08-06
+const SNAPSHOT_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2})$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Built-in list prices. A model with several entries changed price; each
+ * entry applies from its `effectiveFrom` date until the next one.
+ */
+export const BUILTIN_PRICING: PricingTable = {
+  models: {
+    // Anthropic
+    'claude-opus-4-5': [{ inputPerMillion: 5, outputPerMillion: 25, cacheReadPerMillion: 0.5, cacheWritePerMillion: 6.25 }],
+    'claude-opus-4-1': [{ inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 }],
+    'claude-opus-4': [{ inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 }],
+    'claude-sonnet-4-5': [{ inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 }],
+    'claude-sonnet-4': [{ inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 }],
+    'claude-haiku-4-5': [{ inputPerMillion: 1, outputPerMillion: 5, cacheReadPerMillion: 0.1, cacheWritePerMillion: 1.25 }],
+    'claude-3-7-sonnet': [{ inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 }],
+    'claude-3-5-sonnet': [{ inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 }],
+    'claude-3-5-haiku': [{ inputPerMillion: 0.8, outputPerMillion: 4, cacheReadPerMillion: 0.08, cacheWritePerMillion: 1 }],
+    'claude-3-opus': [{ inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 }],
+
+    // OpenAI
+    'gpt-5': [{ inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125 }],
+    'gpt-5-codex': [{ inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125 }],
+    'gpt-5-mini': [{ inputPerMillion: 0.25, outputPerMillion: 2, cacheReadPerMillion: 0.025 }],
+    'gpt-5-nano': [{ inputPerMillion: 0.05, outputPerMillion: 0.4, cacheReadPerMillion: 0.005 }],
+    'gpt-4.1': [{ inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5 }],
+    'gpt-4.1-mini': [{ inputPerMillion: 0.4, outputPerMillion: 1.6, cacheReadPerMillion: 0.1 }],
+    'gpt-4.1-nano': [{ inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.025 }],
+    'gpt-4o': [
+      { inputPerMillion: 5, outputPerMillion: 15 },
+      { effectiveFrom: '2024-10-02', inputPerMillion: 2.5, outputPerMillion: 10, cacheReadPerMillion: 1.25 },
+    ],
+    'gpt-4o-mini': [{ inputPerMillion: 0.15, outputPerMillion: 0.6, cacheReadPerMillion: 0.075 }],
+    'gpt-4-turbo': [{ inputPerMillion: 10, outputPerMillion: 30 }],
+    'o1': [{ inputPerMillion: 15, outputPerMillion: 60, cacheReadPerMillion: 7.5 }],
+    'o1-mini': [
+      { inputPerMillion: 3, outputPerMillion: 12 },
+      { effectiveFrom: '2025-01-31', inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.55 },
+    ],
+    'o3': [
+      { inputPerMillion: 10, outputPerMillion: 40, cacheReadPerMillion: 2.5 },
+      { effectiveFrom: '2025-06-10', inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5 },
+    ],
+    'o3-mini': [{ inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.55 }],
+    'o4-mini': [{ inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.275 }],
+    'codex-mini-latest': [{ inputPerMillion: 1.5, outputPerMillion: 6, cacheReadPerMillion: 0.375 }],
+
+    // Google
+    'gemini-3-pro-preview': [{ inputPerMillion: 2, outputPerMillion: 12, cacheReadPerMillion: 0.2 }],
+    'gemini-2.5-pro': [{ inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125 }],
+    'gemini-2.5-flash-lite': [{ inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.01 }],
+    'gemini-2.5-flash': [{ inputPerMillion: 0.3, outputPerMillion: 2.5, cacheReadPerMillion: 0.03 }],
+    'gemini-2.0-flash-lite': [{ inputPerMillion: 0.075, outputPerMillion: 0.3 }],
+    'gemini-2.0-flash': [{ inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+    'gemini-2.0-pro': [{ inputPerMillion: 1.25, outputPerMillion: 10 }],
+    'gemini-1.5-pro': [{ inputPerMillion: 1.25, outputPerMillion: 5 }],
+
+    // DeepSeek
+    'deepseek-chat': [
+      { inputPerMillion: 0.27, outputPerMillion: 1.1, cacheReadPerMillion: 0.07 },
+      { effectiveFrom: '2025-09-05', inputPerMillion: 0.56, outputPerMillion: 1.68, cacheReadPerMillion: 0.07 },
+      { effectiveFrom: '2025-09-29', inputPerMillion: 0.28, outputPerMillion: 0.42, cacheReadPerMillion: 0.028 },
+    ],
+    'deepseek-reasoner': [
+      { inputPerMillion: 0.55, outputPerMillion: 2.19, cacheReadPerMillion: 0.14 },
+      { effectiveFrom: '2025-09-05', inputPerMillion: 0.56, outputPerMillion: 1.68, cacheReadPerMillion: 0.07 },
+      { effectiveFrom: '2025-09-29', inputPerMillion: 0.28, outputPerMillion: 0.42, cacheReadPerMillion: 0.028 },
+    ],
+  },
+  aliases: {
+    // Anthropic API aliases and the names Cursor shows
+    'claude-opus-4-0': 'claude-opus-4',
+    'claude-sonnet-4-0': 'claude-sonnet-4',
+    'claude-3-7-sonnet-latest': 'claude-3-7-sonnet',
+    'claude-3-5-sonnet-latest': 'claude-3-5-sonnet',
+    'claude-3-5-haiku-latest': 'claude-3-5-haiku',
+    'claude-3-opus-latest': 'claude-3-opus',
+    'claude-4.5-opus': 'claude-opus-4-5',
+    'claude-4.1-opus': 'claude-opus-4-1',
+    'claude-4-opus': 'claude-opus-4',
+    'claude-4.5-sonnet': 'claude-sonnet-4-5',
+    'claude-4-sonnet': 'claude-sonnet-4',
+    'claude-4.5-haiku': 'claude-haiku-4-5',
+    'claude-3.7-sonnet': 'claude-3-7-sonnet',
+    'claude-3.5-sonnet': 'claude-3-5-sonnet',
+    'claude-3.5-haiku': 'claude-3-5-haiku',
+
+    // OpenAI
+    'chatgpt-4o-latest': 'gpt-4o',
+    'gpt-5-chat-latest': 'gpt-5',
+    'gpt-4-turbo-preview': 'gpt-4-turbo',
+
+    // Google
+    'gemini-2.5-pro-preview': 'gemini-2.5-pro',
+    'gemini-2.5-flash-preview': 'gemini-2.5-flash',
+  },
+};
+
+export interface LoadedPricing {
+  table: PricingTable;
+  /** Changes whenever any price does, so cached costs can be recomputed */
+  fingerprint: string;
+  /** Entries in the pricing file that were ignored, and why */
+  problems: string[];
+}
+
+let loaded: LoadedPricing | null = null;
+
+/** The built-in table with the user's pricing file applied, read once per run. */
+export function getPricing(): LoadedPricing {
+  if (!loaded) {
+    const { table, problems } = applyPricingFile(BUILTIN_PRICING, PRICING_FILE);
+    const fingerprint = createHash('sha256').update(JSON.stringify(table)).digest('hex').slice(0, 16);
+    loaded = { table, fingerprint, problems };
+  }
+  return loaded;
+}
+
+export function getPricingPath(): string {
+  return PRICING_FILE;
+}
+
+/**
+ * Price in force for a model on a date, or null when the model is unknown.
+ * Before a model's first dated price, the earliest entry applies.
+ */
+export function findPricing(model: string, date: string): ModelPricing | null {
+  const { table } = getPricing();
+  const key = resolveModel(table, model);
+  if (!key) return null;
+
+  const entries = table.models[key];
+  let match = entries[0] ?? null;
+  for (const entry of entries) {
+    if (!entry.effectiveFrom || entry.effectiveFrom <= date) match = entry;
+  }
+  return match;
+}
+
+/**
+ * The table key a reported model name prices as: an exact key or alias,
+ * optionally after dropping a provider prefix ("anthropic/…") and a
+ * snapshot date suffix. No partial matches — "o1" never prices "o1-pro".
+ */
+export function resolveModel(table: PricingTable, model: string): string | null {
+  const name = model.trim().toLowerCase().replace(/^[\w.-]+\//, '');
+  for (const candidate of [name, name.replace(SNAPSHOT_SUFFIX, '')]) {
+    if (table.models[candidate]) return candidate;
+    const alias = table.aliases[candidate];
+    if (alias && table.models[alias]) return alias;
+  }
+  return null;
+}
+
+// ── Pricing file ─────────────────────────────────────────────────
+
+/**
+ * Merge ~/.config/devday/pricing.json into a table. A model listed there
+ * replaces the built-in prices for that model; new models and aliases are
+ * added. Invalid entries are skipped and reported rather than failing the run.
+ */
+function applyPricingFile(base: PricingTable, filePath: string): { table: PricingTable; problems: string[] } {
+  const table: PricingTable = { models: { ...base.models }, aliases: { ...base.aliases } };
+  const problems: string[] = [];
+  if (!existsSync(filePath)) return { table, problems };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    problems.push(`${filePath}: ${err instanceof Error ? err.message : err}`);
+    return { table, problems };
+  }
+  if (!isRecord(raw)) {
+    problems.push(`${filePath}: expected an object with "models" and/or "aliases"`);
+    return { table, problems };
+  }
+
+  const models = isRecord(raw.models) ? raw.models : {};
+  for (const [name, value] of Object.entries(models)) {
+    const entries = Array.isArray(value) ? value : [value];
+    try {
+      table.models[name.toLowerCase()] = entries
+        .map((entry) => parseModelPricing(entry))
+        .sort((a, b) => (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? ''));
+    } catch (err) {
+      problems.push(`models.${name}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const aliases = isRecord(raw.aliases) ? raw.aliases : {};
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (typeof target !== 'string' || !table.models[target.toLowerCase()]) {
+      problems.push(`aliases.${alias}: "${String(target)}" is not a known model`);
+      continue;
+    }
+    table.aliases[alias.toLowerCase()] = target.toLowerCase();
+  }
+
+  return { table, problems };
+}
+
+function parseModelPricing(value: unknown): ModelPricing {
+  if (!isRecord(value)) throw new Error('expected an object or a list of objects');
+
+  const price = (key: string, required: boolean): number | undefined => {
+    const n = value[key];
+    if (n === undefined && !required) return undefined;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) throw new Error(`${key} must be a number ≥ 0`);
+    return n;
+  };
+
+  const effectiveFrom = value.effectiveFrom;
+  if (effectiveFrom !== undefined && (typeof effectiveFrom !== 'string' || !DATE.test(effectiveFrom))) {
+    throw new Error(`effectiveFrom must be a YYYY-MM-DD date`);
+  }
+
+  return {
+    effectiveFrom,
+    inputPerMillion: price('inputPerMillion', true)!,
+    outputPerMillion: price('outputPerMillion', true)!,
+    cacheReadPerMillion: price('cacheReadPerMillion', false),
+    cacheWritePerMillion: price('cacheWritePerMillion', false),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,115 @@
+import type { Session } from './types.js';
+
+/** A named pattern whose matches are replaced with `[REDACTED:<name>]`. */
+export interface Redactor {
+  name: string;
+  pattern: RegExp; // must be global
+  /** Rebuild the match with only the secret part replaced (keeps e.g. "Bearer " or a URL's host) */
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+const LOOPBACK_IPS = new Set(['127.0.0.1', '0.0.0.0', '255.255.255.255']);
+
+/**
+ * Built-in detectors, in order. Earlier ones run first so broader patterns
+ * (emails, IPs) don't fire on pieces of an already-matched secret.
+ */
+const BUILTIN_REDACTORS: Redactor[] = [
+  {
+    // Truncated digests may cut the END line, so accept end-of-text as well
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: 'password',
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)@/gi,
+    replace: (_match, prefix) => `${prefix}[REDACTED:password]@`,
+  },
+  { name: 'aws-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret',
+    pattern: /\b(aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9/+=]{30,}/gi,
+    replace: (_match, prefix) => `${prefix}[REDACTED:aws-secret]`,
+  },
+  { name: 'gcp-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    name: 'bearer-token',
+    pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+    replace: (_match, prefix) => `${prefix}[REDACTED:bearer-token]`,
+  },
+  {
+    // git@github.com:org/repo is an SSH remote, not a person
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replace: (match) => (match.startsWith('git@') ? match : '[REDACTED:email]'),
+  },
+  {
+    name: 'ip',
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+    replace: (match) => (LOOPBACK_IPS.has(match) ? match : '[REDACTED:ip]'),
+  },
+];
+
+/**
+ * Built-in detectors plus user-defined regexes from config (`redactPatterns`).
+ * Invalid user patterns are skipped and reported through `onInvalid`.
+ */
+export function buildRedactors(customPatterns: string[], onInvalid?: (pattern: string, error: string) => void): Redactor[] {
+  const custom: Redactor[] = [];
+  for (const source of customPatterns) {
+    try {
+      custom.push({ name: 'custom', pattern: new RegExp(source, 'g') });
+    } catch (err) {
+      onInvalid?.(source, err instanceof Error ? err.message : String(err));
+    }
+  }
+  return [...BUILTIN_REDACTORS, ...custom];
+}
+
+/**
+ * Redact a single string. Returns the cleaned text and how many matches were replaced.
+ */
+export function redactText(text: string, redactors: Redactor[]): { text: string; count: number } {
+  let count = 0;
+  let result = text;
+
+  for (const { name, pattern, replace } of redactors) {
+    pattern.lastIndex = 0;
+    result = result.replace(pattern, (match: string, ...rest: unknown[]) => {
+      // The trailing replace() args are offset, input (and groups when named)
+      const groups = rest.filter((arg): arg is string => typeof arg === 'string').slice(0, -1);
+      const replacement = replace ? replace(match, ...groups) : `[REDACTED:${name}]`;
+      if (replacement !== match) count++;
+      return replacement;
+    });
+  }
+
+  return { text: result, count };
+}
+
+/**
+ * Redact secrets and PII in every free-text field of a session, in place.
+ * Already-redacted text is left alone, so running it twice is harmless.
+ * Returns the number of items redacted.
+ */
+export function redactSession(session: Session, redactors: Redactor[]): number {
+  let count = 0;
+  const clean = (value: string): string => {
+    const result = redactText(value, redactors);
+    count += result.count;
+    return result.text;
+  };
+
+  if (session.title) session.title = clean(session.title);
+  if (session.summary) session.summary = clean(session.summary);
+  session.topics = session.topics.map(clean);
+  session.conversationDigest = clean(session.conversationDigest);
+  session.toolCallSummaries = session.toolCallSummaries.map(clean);
+  session.filesTouched = session.filesTouched.map(clean);
+
+  return count;
+}
@@ -0,0 +1,260 @@
+import type { DayRecap, ProjectSummary, RangeRecap } from './types.js';
+import { formatTokens, formatCost, formatSessionCost, formatDuration, formatCommitRefs, describeWorkInProgress, subscriptionRow, SUBSCRIPTION_HEADERS, budgetRow, BUDGET_HEADERS } from './format.js';
+
+const STYLES = `
+  body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.6rem; border-bottom: 2px solid #0969da; padding-bottom: .3rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; color: #1a7f37; }
+  .path { color: #656d76; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: .85rem; }
+  table { border-collapse: collapse; width: 100%; margin: .75rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: .35rem .6rem; text-align: left; vertical-align: top; }
+  th { background: #f6f8fa; font-weight: 600; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .overview td { text-align: center; font-size: 1.1rem; }
+  .overview th { text-align: center; }
+  .summary { background: #f6f8fa; border-left: 4px solid #0969da; padding: .5rem .8rem; }
+  ul.commits { list-style: none; padding-left: 0; }
+  ul.commits code { color: #9a6700; }
+  .ins { color: #1a7f37; } .del { color: #cf222e; }
+  .muted { color: #8c959f; }
+  .standup { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: .5rem 1rem; }
+`;
+
+/**
+ * Render a day recap as a self-contained HTML page (inline CSS, no external assets),
+ * with the same sections as the terminal view.
+ */
+export function renderHtml(recap: DayRecap, options: { standup?: boolean } = {}): string {
+  const title = `devday — ${recap.date}`;
+
+  if (options.standup) {
+    return page(`Standup for ${recap.date}`, [
+      `<h1>Standup for ${escapeHtml(recap.date)}</h1>`,
+      recap.standupMessage ? textBlock(recap.standupMessage) : '<p class="muted">No activity to report.</p>',
+    ]);
+  }
+
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+
+  body.push(
+    table(
+      ['Sessions', 'Messages', 'Tokens', 'Cost', 'Active', 'Agent busy', 'Tools'],
+      [[
+        String(recap.totalSessions),
+        String(recap.totalMessages),
+        formatTokens(recap.totalTokens),
+        formatCost(recap.totalCostUsd),
+        formatDuration(recap.totalDurationMs),
+        formatDuration(recap.agentBusyMs),
+        recap.toolsUsed.join(', '),
+      ]],
+      { className: 'overview' },
+    ),
+  );
+
+  if (recap.budgets.length > 0) {
+    body.push('<h2>Budgets</h2>', table(BUDGET_HEADERS, recap.budgets.map(budgetRow), { numeric: [1, 2, 3, 4] }));
+  }
+
+  if (recap.subscriptions.length > 0) {
+    body.push('<h2>Subscriptions</h2>', table(SUBSCRIPTION_HEADERS, recap.subscriptions.map(subscriptionRow), { numeric: [2, 3] }));
+  }
+
+  if (recap.projects.length === 0) {
+    body.push('<p class="muted">No sessions found.</p>');
+  }
+
+  for (const project of recap.projects) {
+    body.push(renderProject(project));
+  }
+
+  if (recap.standupMessage) {
+    body.push('<h2>Standup</h2>', `<div class="standup">${textBlock(recap.standupMessage)}</div>`);
+  }
+
+  return page(title, body);
+}
+
+/**
+ * Render a week / month / custom range recap as a self-contained HTML page.
+ */
+export function renderRangeHtml(range: RangeRecap, options: { standup?: boolean } = {}): string {
+  const span = `${range.from} → ${range.to}`;
+
+  if (options.standup) {
+    return page(`Summary for ${span}`, [
+      `<h1>Summary for ${escapeHtml(span)}</h1>`,
+      range.narrative ? textBlock(range.narrative) : '<p class="muted">No activity to report.</p>',
+    ]);
+  }
+
+  const title = `devday — ${span}`;
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+
+  body.push(
+    table(
+      ['Active days', 'Sessions', 'Commits', 'Tokens', 'Cost', 'Active', 'Tools'],
+      [[
+        `${range.activeDays}/${range.days.length}`,
+        String(range.totalSessions),
+        String(range.totalCommits),
+        formatTokens(range.totalTokens),
+        formatCost(range.totalCostUsd),
+        formatDuration(range.totalDurationMs),
+        range.toolsUsed.join(', '),
+      ]],
+      { className: 'overview' },
+    ),
+  );
+
+  body.push(
+    '<h2>By day</h2>',
+    table(
+      ['Date', 'Sessions', 'Commits', 'Cost', 'Active', 'Projects'],
+      range.days.map((day) => [
+        day.date,
+        String(day.totalSessions),
+        String(day.projects.reduce((sum, p) => sum + (p.git?.commits.length ?? 0), 0)),
+        formatCost(day.totalCostUsd),
+        formatDuration(day.totalDurationMs),
+        day.projects.map((p) => p.projectName).join(', '),
+      ]),
+      { numeric: [1, 2, 3, 4] },
+    ),
+  );
+
+  if (range.projects.length > 0) {
+    body.push(
+      '<h2>By project</h2>',
+      table(
+        ['Project', 'Days', 'Sessions', 'Commits', 'Lines', 'Cost', 'Active'],
+        range.projects.map((p) => [
+          p.projectName,
+          String(p.activeDays.length),
+          String(p.totalSessions),
+          String(p.totalCommits),
+          `+${p.totalInsertions}/-${p.totalDeletions}`,
+          formatCost(p.totalCostUsd),
+          formatDuration(p.totalDurationMs),
+        ]),
+        { numeric: [1, 2, 3, 4, 5, 6] },
+      ),
+    );
+  }
+
+  if (range.narrative) {
+    body.push('<h2>Summary</h2>', `<div class="standup">${textBlock(range.narrative)}</div>`);
+  }
+
+  return page(title, body);
+}
+
+// ── Sections ─────────────────────────────────────────────────────
+
+function renderProject(project: ProjectSummary): string {
+  const parts: string[] = [
+    `<h2>${escapeHtml(project.projectName)}</h2>`,
+    `<div class="path">${escapeHtml(project.projectPath)}</div>`,
+  ];
+
+  if (project.aiSummary) {
+    parts.push(`<div class="summary">${textBlock(project.aiSummary)}</div>`);
+  }
+
+  if (project.sessions.length > 0) {
+    const showCommits = project.git !== null;
+    parts.push(
+      table(
+        ['Session', 'Messages', 'Model', 'Cost', 'Active', ...(showCommits ? ['Commits'] : [])],
+        project.sessions.map((s) => [
+          s.title ?? s.id,
+          String(s.messageCount),
+          s.models.join(', ') || 'N/A',
+          formatSessionCost(s),
+          formatDuration(s.durationMs),
+          ...(showCommits ? [formatCommitRefs(s.commitHashes)] : []),
+        ]),
+        { numeric: [1, 3, 4] },
+      ),
+    );
+  }
+
+  const wip = project.git ? describeWorkInProgress(project.git) : [];
+  if (project.git && (project.git.commits.length > 0 || wip.length > 0)) {
+    const items = project.git.commits.map((c) =>
+      `<li><code>${escapeHtml(c.shortHash)}</code> ${escapeHtml(c.message)} ` +
+      `<span class="ins">+${c.insertions}</span><span class="del">-${c.deletions}</span></li>`,
+    );
+    parts.push('<h3>Git</h3>');
+    if (wip.length > 0) parts.push(`<ul class="wip muted">${wip.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+    if (items.length > 0) parts.push(`<ul class="commits">${items.join('')}</ul>`);
+  }
+
+  return parts.join('\n');
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function page(title: string, body: string[]): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+function table(head: string[], rows: string[][], options: { className?: string; numeric?: number[] } = {}): string {
+  const numeric = new Set(options.numeric ?? []);
+  const cls = options.className ? ` class="${options.className}"` : '';
+  const thead = `<tr>${head.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`;
+  const tbody = rows
+    .map((row) => `<tr>${row.map((cell, i) => `<td${numeric.has(i) ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table${cls}>\n<thead>${thead}</thead>\n<tbody>\n${tbody}\n</tbody>\n</table>`;
+}
+
+/** LLM text → HTML: "- " lines become a list, everything else paragraphs */
+function textBlock(text: string): string {
+  const out: string[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length > 0) out.push(`<ul>${listItems.map((li) => `<li>${li}</li>`).join('')}</ul>`);
+    listItems = [];
+  };
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line) {
+      flushList();
+      continue;
+    }
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    if (bullet) {
+      listItems.push(escapeHtml(bullet[1]));
+    } else {
+      flushList();
+      out.push(`<p>${escapeHtml(line)}</p>`);
+    }
+  }
+  flushList();
+
+  return out.join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
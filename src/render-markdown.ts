@@ -0,0 +1,239 @@
+import type { DayRecap, ProjectSummary, RangeRecap, TeamRecap } from './types.js';
+import { memberStandup } from './team.js';
+import { formatTokens, formatCost, formatSessionCost, formatDuration, formatCommitRefs, describeWorkInProgress, subscriptionRow, SUBSCRIPTION_HEADERS, budgetRow, BUDGET_HEADERS } from './format.js';
+
+/**
+ * Render a day recap as GitHub-flavored Markdown — same sections as the
+ * terminal view, ready to paste into a PR, wiki page or email.
+ */
+export function renderMarkdown(recap: DayRecap, options: { standup?: boolean } = {}): string {
+  if (options.standup) {
+    return [`# Standup for ${recap.date}`, '', recap.standupMessage ?? '_No activity to report._', ''].join('\n');
+  }
+
+  const out: string[] = [];
+  out.push(`# devday — ${recap.date}`, '');
+
+  out.push(
+    table(
+      ['Sessions', 'Messages', 'Tokens', 'Cost', 'Active', 'Agent busy', 'Tools'],
+      [[
+        String(recap.totalSessions),
+        String(recap.totalMessages),
+        formatTokens(recap.totalTokens),
+        formatCost(recap.totalCostUsd),
+        formatDuration(recap.totalDurationMs),
+        formatDuration(recap.agentBusyMs),
+        recap.toolsUsed.join(', '),
+      ]],
+    ),
+    '',
+  );
+
+  if (recap.budgets.length > 0) {
+    out.push('## Budgets', '', table(BUDGET_HEADERS, recap.budgets.map(budgetRow)), '');
+  }
+
+  if (recap.subscriptions.length > 0) {
+    out.push('## Subscriptions', '', table(SUBSCRIPTION_HEADERS, recap.subscriptions.map(subscriptionRow)), '');
+  }
+
+  if (recap.projects.length === 0) {
+    out.push('_No sessions found._', '');
+  }
+
+  for (const project of recap.projects) {
+    out.push(...renderProject(project));
+  }
+
+  if (recap.standupMessage) {
+    out.push('## Standup', '', recap.standupMessage, '');
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Render a week / month / custom range recap as Markdown.
+ */
+export function renderRangeMarkdown(range: RangeRecap, options: { standup?: boolean } = {}): string {
+  const title = `${range.from} → ${range.to}`;
+  if (options.standup) {
+    return [`# Summary for ${title}`, '', range.narrative ?? '_No activity to report._', ''].join('\n');
+  }
+
+  const out: string[] = [];
+  out.push(`# devday — ${title}`, '');
+
+  out.push(
+    table(
+      ['Active days', 'Sessions', 'Commits', 'Tokens', 'Cost', 'Active', 'Tools'],
+      [[
+        `${range.activeDays}/${range.days.length}`,
+        String(range.totalSessions),
+        String(range.totalCommits),
+        formatTokens(range.totalTokens),
+        formatCost(range.totalCostUsd),
+        formatDuration(range.totalDurationMs),
+        range.toolsUsed.join(', '),
+      ]],
+    ),
+    '',
+  );
+
+  out.push('## By day', '');
+  out.push(
+    table(
+      ['Date', 'Sessions', 'Commits', 'Cost', 'Active', 'Projects'],
+      range.days.map((day) => [
+        day.date,
+        String(day.totalSessions),
+        String(day.projects.reduce((sum, p) => sum + (p.git?.commits.length ?? 0), 0)),
+        formatCost(day.totalCostUsd),
+        formatDuration(day.totalDurationMs),
+        day.projects.map((p) => p.projectName).join(', '),
+      ]),
+    ),
+    '',
+  );
+
+  if (range.projects.length > 0) {
+    out.push('## By project', '');
+    out.push(
+      table(
+        ['Project', 'Days', 'Sessions', 'Commits', 'Lines', 'Cost', 'Active'],
+        range.projects.map((p) => [
+          p.projectName,
+          String(p.activeDays.length),
+          String(p.totalSessions),
+          String(p.totalCommits),
+          `+${p.totalInsertions}/-${p.totalDeletions}`,
+          formatCost(p.totalCostUsd),
+          formatDuration(p.totalDurationMs),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  if (range.narrative) {
+    out.push('## Summary', '', range.narrative, '');
+  }
+
+  return out.join('\n');
+}
+
+// ── Sections ─────────────────────────────────────────────────────
+
+function renderProject(project: ProjectSummary): string[] {
+  const out: string[] = [];
+  out.push(`## ${project.projectName}`, '', `\`${project.projectPath}\``, '');
+
+  if (project.aiSummary) {
+    out.push(project.aiSummary, '');
+  }
+
+  if (project.sessions.length > 0) {
+    const showCommits = project.git !== null;
+    out.push(
+      table(
+        ['Session', 'Messages', 'Model', 'Cost', 'Active', ...(showCommits ? ['Commits'] : [])],
+        project.sessions.map((s) => [
+          s.title ?? s.id,
+          String(s.messageCount),
+          s.models.join(', ') || 'N/A',
+          formatSessionCost(s),
+          formatDuration(s.durationMs),
+          ...(showCommits ? [formatCommitRefs(s.commitHashes)] : []),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  const wip = project.git ? describeWorkInProgress(project.git) : [];
+  if (project.git && (project.git.commits.length > 0 || wip.length > 0)) {
+    out.push('**Git**', '');
+    for (const line of wip) {
+      out.push(`- _${escapeInline(line)}_`);
+    }
+    for (const commit of project.git.commits) {
+      out.push(`- \`${commit.shortHash}\` ${escapeInline(commit.message)} (+${commit.insertions}/-${commit.deletions})`);
+    }
+    out.push('');
+  }
+
+  return out;
+}
+
+/** Team recap as Markdown, with the same sections as the terminal view */
+export function renderTeamMarkdown(team: TeamRecap, options: { standup?: boolean } = {}): string {
+  const standup = team.members.map((m) => [`### ${m.name}`, '', memberStandup(m, team.projects)].join('\n')).join('\n\n');
+  if (options.standup) {
+    return [`# Team standup for ${team.date}`, '', standup, ''].join('\n');
+  }
+
+  const names = new Map(team.members.map((m) => [m.id, m.name]));
+  const out: string[] = [`# Team — ${team.date}`, ''];
+  out.push(
+    `${team.members.length} people · ${team.totalSessions} sessions · ${team.totalCommits} commits · ${formatTokens(team.totalTokens)} tokens · ${formatCost(team.totalCostUsd)}`,
+    '',
+    '## By person',
+    '',
+    table(['Person', 'Sessions', 'Commits', 'Tokens', 'Cost', 'Active', 'Projects'], team.members.map((m) => [
+      m.name,
+      String(m.totalSessions),
+      String(m.totalCommits),
+      formatTokens(m.totalTokens),
+      formatCost(m.totalCostUsd),
+      formatDuration(m.totalDurationMs),
+      m.projects.join(', '),
+    ])),
+    '',
+    '## By project',
+    '',
+    table(['Project', 'People', 'Sessions', 'Commits', 'Cost', 'Active'], team.projects.map((p) => [
+      p.projectName,
+      String(p.contributions.length),
+      String(p.totalSessions),
+      String(p.totalCommits),
+      formatCost(p.totalCostUsd),
+      formatDuration(p.totalDurationMs),
+    ])),
+    '',
+  );
+
+  for (const project of team.projects) {
+    out.push(`### ${project.projectName}`, '');
+    if (project.remoteUrl) out.push(`\`${project.remoteUrl}\``, '');
+    for (const c of project.contributions) {
+      out.push(`- **${names.get(c.member) ?? c.member}**: ${c.sessions} sessions, ${c.commits.length} commits, ${formatCost(c.costUsd)}, ${formatDuration(c.durationMs)}`);
+      if (c.summary) out.push(`  ${escapeInline(c.summary.split('\n')[0])}`);
+      for (const commit of c.commits) out.push(`  - \`${commit.shortHash}\` ${escapeInline(commit.message)}`);
+    }
+    out.push('');
+  }
+
+  out.push('## Standup', '', standup, '');
+  return out.join('\n');
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function table(head: string[], rows: string[][]): string {
+  const lines = [
+    `| ${head.map(escapeCell).join(' | ')} |`,
+    `| ${head.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(' | ')} |`),
+  ];
+  return lines.join('\n');
+}
+
+function escapeCell(value: string): string {
+  return escapeInline(value).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/** Keep user text from being read as markup (emphasis, links, HTML) */
+function escapeInline(value: string): string {
+  return value.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
@@ -0,0 +1,124 @@
+import chalk from 'chalk';
+import type { DayRecap, Interval, ToolName } from './types.js';
+import { mergeIntervals } from './activity.js';
+import { clockTime, dayWindow } from './dates.js';
+import { formatDuration, truncate } from './format.js';
+
+/** Gaps at least this long between sessions are shown as idle */
+const IDLE_GAP_MS = 30 * 60 * 1000;
+const LABEL_WIDTH = 26;
+
+interface TimelineRow {
+  label: string;
+  intervals: Interval[];
+  commits: number[]; // commit timestamps (ms)
+}
+
+/**
+ * Hour-by-hour chart of the day: one row per project and tool, with sessions
+ * as bars, commits as ◆ markers, and an overall row that marks idle gaps.
+ */
+export function renderTimeline(recap: DayRecap): void {
+  const window = dayWindow(recap.date);
+  const clamp = (ms: number) => Math.min(window.endMs, Math.max(window.startMs, ms));
+
+  const rows: TimelineRow[] = [];
+  for (const project of recap.projects) {
+    const tools = [...new Set(project.sessions.map((s) => s.tool))] as ToolName[];
+    const commits = (project.git?.commits ?? []).map((c) => c.timestamp.getTime());
+    for (const [i, tool] of tools.entries()) {
+      rows.push({
+        label: `${project.projectName} · ${tool}`,
+        intervals: project.sessions
+          .filter((s) => s.tool === tool)
+          .map((s) => ({ startMs: clamp(s.startedAt.getTime()), endMs: clamp(s.endedAt.getTime()) })),
+        // Commit markers go on the project's first row only
+        commits: i === 0 ? commits : [],
+      });
+    }
+    if (tools.length === 0 && commits.length > 0) {
+      rows.push({ label: `${project.projectName} · git`, intervals: [], commits });
+    }
+  }
+
+  console.log('');
+  console.log(chalk.bold.cyan(`  Timeline — ${recap.date}`));
+  console.log('');
+
+  const active = mergeIntervals(rows.flatMap((r) => r.intervals));
+  const events = [...active.flatMap((i) => [i.startMs, i.endMs]), ...rows.flatMap((r) => r.commits)];
+  if (events.length === 0) {
+    console.log(chalk.dim('  No activity to chart.'));
+    console.log('');
+    return;
+  }
+
+  // ── Scale: 15-minute columns for short days, 30-minute for long ones ──
+  const first = Math.min(...events);
+  const last = Math.max(...events);
+  const slotMs = last - first <= 12 * 3_600_000 ? 15 * 60_000 : 30 * 60_000;
+  const hourMs = 3_600_000;
+  // Align to whole hours from the start of the recap day so labels land on :00
+  const chartStart = window.startMs + Math.floor((first - window.startMs) / hourMs) * hourMs;
+  const chartEnd = window.startMs + Math.ceil((last + 1 - window.startMs) / hourMs) * hourMs;
+  const slots = Math.round((chartEnd - chartStart) / slotMs);
+  const slotsPerHour = hourMs / slotMs;
+  const slotOf = (ms: number) => Math.min(slots - 1, Math.floor((ms - chartStart) / slotMs));
+
+  // ── Axis ──────────────────────────────────────────────────
+  // Label every hour on 15-minute scales, every other hour on 30-minute ones
+  const labelSlots = slotsPerHour >= 4 ? slotsPerHour : slotsPerHour * 2;
+  let axis = '';
+  for (let slot = 0; slot < slots; slot += labelSlots) {
+    axis += clockTime(chartStart + slot * slotMs).slice(0, 2).padEnd(labelSlots);
+  }
+  console.log(`  ${' '.repeat(LABEL_WIDTH)} ${chalk.dim(axis)}`);
+
+  // ── Rows ──────────────────────────────────────────────────
+  for (const row of rows) {
+    const cells: string[] = Array.from({ length: slots }, (_, slot) =>
+      slot % slotsPerHour === 0 ? chalk.dim('┊') : chalk.dim('·'),
+    );
+    for (const interval of row.intervals) {
+      for (let slot = slotOf(interval.startMs); slot <= slotOf(interval.endMs); slot++) cells[slot] = chalk.green('█');
+    }
+    for (const ts of row.commits) {
+      if (ts >= chartStart && ts < chartEnd) cells[slotOf(ts)] = chalk.yellow('◆');
+    }
+    console.log(`  ${truncate(row.label, LABEL_WIDTH).padEnd(LABEL_WIDTH)} ${cells.join('')}`);
+  }
+
+  // ── Overall activity, with idle gaps ──────────────────────
+  const gaps = idleGaps(active);
+  const overall: string[] = Array.from({ length: slots }, () => ' ');
+  for (const interval of active) {
+    for (let slot = slotOf(interval.startMs); slot <= slotOf(interval.endMs); slot++) overall[slot] = chalk.cyan('▀');
+  }
+  for (const gap of gaps) {
+    for (let slot = slotOf(gap.startMs) + 1; slot < slotOf(gap.endMs); slot++) overall[slot] = chalk.red('░');
+  }
+  console.log(`  ${chalk.dim('all sessions'.padEnd(LABEL_WIDTH))} ${overall.join('')}`);
+  console.log('');
+  console.log(chalk.dim(`  █ session  ◆ commit  ░ idle ≥ ${IDLE_GAP_MS / 60_000}m  · ${slotMs / 60_000} min per column`));
+  console.log('');
+
+  // ── Summary ───────────────────────────────────────────────
+  console.log(`  ${chalk.dim('First activity')}  ${clockTime(first)}`);
+  console.log(`  ${chalk.dim('Last activity ')}  ${clockTime(last)}`);
+  console.log(`  ${chalk.dim('Active        ')}  ${formatDuration(recap.totalDurationMs)} ${chalk.dim(`of ${formatDuration(last - first)} (overlaps counted once)`)}`);
+  console.log(`  ${chalk.dim('Agent busy    ')}  ${formatDuration(recap.agentBusyMs)}`);
+  if (gaps.length > 0) {
+    const listed = gaps.map((g) => `${clockTime(g.startMs)}–${clockTime(g.endMs)} (${formatDuration(g.endMs - g.startMs)})`);
+    console.log(`  ${chalk.dim('Idle          ')}  ${listed.join(', ')}`);
+  }
+  console.log('');
+}
+
+function idleGaps(active: Interval[]): Interval[] {
+  const gaps: Interval[] = [];
+  for (let i = 1; i < active.length; i++) {
+    const gap = { startMs: active[i - 1].endMs, endMs: active[i].startMs };
+    if (gap.endMs - gap.startMs >= IDLE_GAP_MS) gaps.push(gap);
+  }
+  return gaps;
+}
@@ -0,0 +1,153 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import type { DayRecap, Session, TokenUsage } from './types.js';
+import { cacheSavings, emptyTokenUsage, sumTokens } from './cost.js';
+import { formatCost, formatTokens, truncate } from './format.js';
+import { tableChars } from './render.js';
+
+/** Sessions reading at least this many prompt tokens are expected to hit the cache */
+const LOW_CACHE_MIN_PROMPT = 100_000;
+const LOW_CACHE_HIT_RATIO = 0.2;
+
+/** Reasoning counts as runaway past this many tokens, when it dwarfs the visible output */
+const RUNAWAY_REASONING_MIN = 50_000;
+const RUNAWAY_REASONING_SHARE = 0.8;
+
+const HEADERS = ['Input', 'Output', 'Reasoning', 'Cache read', 'Cache write', 'Cache hit', 'Saved by cache'];
+
+interface TokenGroup {
+  label: string;
+  tokens: TokenUsage;
+  savedUsd: number;
+}
+
+/**
+ * Token mix for the day: input, output, reasoning and cache split per tool,
+ * model, project and session, with cache hit ratios, what caching saved, and
+ * sessions whose cache hits or reasoning look off.
+ */
+export function renderTokens(recap: DayRecap): void {
+  const sessions = recap.projects.flatMap((p) => p.sessions);
+
+  console.log('');
+  console.log(chalk.bold.cyan(`  Tokens — ${recap.date}`));
+  console.log('');
+
+  if (sessions.length === 0) {
+    console.log(chalk.dim('  No sessions to break down.'));
+    console.log('');
+    return;
+  }
+
+  const total = group('total', sessions);
+  console.log(`  ${formatTokens(total.tokens.total)} tokens · cache hit ${formatRatio(cacheHitRatio(total.tokens))} · caching saved ${formatCost(total.savedUsd)}`);
+  console.log('');
+
+  printGroups('By tool', groupBy(sessions, (s) => s.tool));
+  printGroups('By model', byModel(sessions));
+  printGroups('By project', groupBy(sessions, (s) => s.projectName ?? 'unknown'));
+  printGroups('By session', sessions.map((s) => group(`${s.projectName ?? 'unknown'} · ${s.title ?? s.id}`, [s])));
+
+  const flags = sessions.flatMap((s) => flagSession(s).map((reason) => ({ session: s, reason })));
+  if (flags.length > 0) {
+    console.log(chalk.bold.yellow('  Worth a look'));
+    for (const { session, reason } of flags) {
+      console.log(`  ${chalk.yellow('!')} ${truncate(session.title ?? session.id, 40)} ${chalk.dim(`(${session.tool}, ${session.projectName ?? 'unknown'})`)} — ${reason}`);
+    }
+    console.log('');
+  }
+}
+
+/** Share of prompt tokens served from the cache */
+function cacheHitRatio(tokens: TokenUsage): number | null {
+  const prompt = tokens.input + tokens.cacheRead + tokens.cacheWrite;
+  return prompt > 0 ? tokens.cacheRead / prompt : null;
+}
+
+function flagSession(session: Session): string[] {
+  const { tokens } = session;
+  const reasons: string[] = [];
+
+  const prompt = tokens.input + tokens.cacheRead + tokens.cacheWrite;
+  const hit = cacheHitRatio(tokens);
+  if (prompt >= LOW_CACHE_MIN_PROMPT && hit !== null && hit < LOW_CACHE_HIT_RATIO) {
+    reasons.push(`low cache hit: ${formatRatio(hit)} of ${formatTokens(prompt)} prompt tokens`);
+  }
+
+  const generated = tokens.output + tokens.reasoning;
+  if (tokens.reasoning >= RUNAWAY_REASONING_MIN && tokens.reasoning / generated >= RUNAWAY_REASONING_SHARE) {
+    reasons.push(`runaway reasoning: ${formatTokens(tokens.reasoning)} reasoning for ${formatTokens(tokens.output)} output`);
+  }
+  return reasons;
+}
+
+function group(label: string, sessions: Session[]): TokenGroup {
+  return {
+    label,
+    tokens: sessions.length > 0 ? sumTokens(...sessions.map((s) => s.tokens)) : emptyTokenUsage(),
+    savedUsd: sessions.reduce((sum, s) => sum + sessionSavings(s), 0),
+  };
+}
+
+/** Each model's share of every session; sessions with no per-model usage count as "unknown" */
+function byModel(sessions: Session[]): TokenGroup[] {
+  const groups = new Map<string, TokenGroup>();
+  for (const session of sessions) {
+    const entries = Object.entries(session.modelUsage);
+    const shares: [string, TokenUsage][] = entries.length > 0
+      ? entries.map(([model, usage]) => [model, usage.tokens])
+      : [['unknown', session.tokens]];
+    for (const [model, tokens] of shares) {
+      const current = groups.get(model) ?? { label: model, tokens: emptyTokenUsage(), savedUsd: 0 };
+      groups.set(model, {
+        label: model,
+        tokens: sumTokens(current.tokens, tokens),
+        savedUsd: current.savedUsd + (model === 'unknown' ? 0 : cacheSavings(model, tokens, session.startedAt.getTime())),
+      });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.tokens.total - a.tokens.total);
+}
+
+function sessionSavings(session: Session): number {
+  const atMs = session.startedAt.getTime();
+  const entries = Object.entries(session.modelUsage);
+  if (entries.length === 0) return session.models[0] ? cacheSavings(session.models[0], session.tokens, atMs) : 0;
+  return entries.reduce((sum, [model, usage]) => sum + cacheSavings(model, usage.tokens, atMs), 0);
+}
+
+function groupBy(sessions: Session[], key: (s: Session) => string): TokenGroup[] {
+  const byKey = new Map<string, Session[]>();
+  for (const session of sessions) {
+    const k = key(session);
+    byKey.set(k, [...(byKey.get(k) ?? []), session]);
+  }
+  return [...byKey].map(([label, members]) => group(label, members)).sort((a, b) => b.tokens.total - a.tokens.total);
+}
+
+function printGroups(title: string, groups: TokenGroup[]): void {
+  const table = new Table({
+    chars: tableChars(),
+    head: [title, ...HEADERS].map((h) => chalk.dim(h)),
+    style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+    colAligns: ['left', 'right', 'right', 'right', 'right', 'right', 'right', 'right'],
+  });
+  for (const g of groups) {
+    table.push([
+      truncate(g.label, 36),
+      formatTokens(g.tokens.input),
+      formatTokens(g.tokens.output),
+      formatTokens(g.tokens.reasoning),
+      formatTokens(g.tokens.cacheRead),
+      formatTokens(g.tokens.cacheWrite),
+      formatRatio(cacheHitRatio(g.tokens)),
+      formatCost(g.savedUsd),
+    ]);
+  }
+  console.log(table.toString());
+  console.log('');
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 100)}%`;
+}
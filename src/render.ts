@@ -1,6 +1,42 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import type { DayRecap, ProjectSummary } from './types.js';
+import { format, parse } from 'date-fns';
+import type { DayRecap, ModelUsage, OutputFormat, ProjectSummary, RangeRecap, Session, TeamRecap } from './types.js';
+import { formatTokens, formatCost, formatSessionCost, formatDuration, formatCommitRefs, describeWorkInProgress, subscriptionRow, SUBSCRIPTION_HEADERS, budgetRow, BUDGET_HEADERS, truncate } from './format.js';
+import { emptyTokenUsage, sumTokens } from './cost.js';
+import { renderMarkdown, renderRangeMarkdown, renderTeamMarkdown } from './render-markdown.js';
+import { renderHtml, renderRangeHtml } from './render-html.js';
+
+/**
+ * Render a day recap as a standalone document (for piping or writing with -o).
+ * The terminal format has no document form and is handled by renderRecap.
+ */
+export function formatRecap(recap: DayRecap, format: Exclude<OutputFormat, 'terminal'>, options: { standup?: boolean }): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(recap, null, 2) + '\n';
+    case 'markdown':
+      return renderMarkdown(recap, options);
+    case 'html':
+      return renderHtml(recap, options);
+  }
+}
+
+export function formatRangeRecap(range: RangeRecap, format: Exclude<OutputFormat, 'terminal'>, options: { standup?: boolean }): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(range, null, 2) + '\n';
+    case 'markdown':
+      return renderRangeMarkdown(range, options);
+    case 'html':
+      return renderRangeHtml(range, options);
+  }
+}
+
+/** Render a team recap as JSON or Markdown (for piping or writing with -o) */
+export function formatTeamRecap(team: TeamRecap, format: 'json' | 'markdown', options: { standup?: boolean }): string {
+  return format === 'json' ? JSON.stringify(team, null, 2) + '\n' : renderTeamMarkdown(team, options);
+}
 
 export function renderRecap(recap: DayRecap, options: { standup?: boolean; json?: boolean }): void {
   if (options.json) {
@@ -52,7 +88,8 @@ function renderFull(recap: DayRecap): void {
       { content: chalk.bold('Messages'), hAlign: 'center' },
       { content: chalk.bold('Tokens'), hAlign: 'center' },
       { content: chalk.bold('Cost'), hAlign: 'center' },
-      { content: chalk.bold('Duration'), hAlign: 'center' },
+      { content: chalk.bold('Active'), hAlign: 'center' },
+      { content: chalk.bold('Agent busy'), hAlign: 'center' },
       { content: chalk.bold('Tools'), hAlign: 'center' },
     ],
     [
@@ -61,12 +98,70 @@ function renderFull(recap: DayRecap): void {
       { content: formatTokens(recap.totalTokens), hAlign: 'center' },
       { content: formatCost(recap.totalCostUsd), hAlign: 'center' },
       { content: formatDuration(recap.totalDurationMs), hAlign: 'center' },
+      { content: formatDuration(recap.agentBusyMs), hAlign: 'center' },
       { content: recap.toolsUsed.join(', '), hAlign: 'center' },
     ],
   );
   console.log(overviewTable.toString());
   console.log('');
 
+  // Budgets: red when over, yellow when the run rate will take it over
+  if (recap.budgets.length > 0) {
+    console.log(chalk.bold('  Budgets'));
+    const budgetTable = new Table({
+      chars: tableChars(),
+      head: BUDGET_HEADERS.map((h) => chalk.dim(h)),
+      style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+    });
+    for (const status of recap.budgets) {
+      const row = budgetRow(status);
+      const projectedOver = status.projectedUsd !== null && status.projectedUsd > status.budget.limitUsd;
+      budgetTable.push(
+        status.over ? row.map((cell) => chalk.red(cell))
+          : projectedOver ? [...row.slice(0, -1), chalk.yellow(row[row.length - 1])]
+            : row,
+      );
+    }
+    console.log(budgetTable.toString());
+    console.log('');
+  }
+
+  // Flat-rate plans vs pay-as-you-go
+  if (recap.subscriptions.length > 0) {
+    console.log(chalk.bold('  Subscriptions'));
+    const subTable = new Table({
+      chars: tableChars(),
+      head: SUBSCRIPTION_HEADERS.map((h) => chalk.dim(h)),
+      style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+    });
+    for (const usage of recap.subscriptions) subTable.push(subscriptionRow(usage));
+    console.log(subTable.toString());
+    console.log('');
+  }
+
+  // Model leaderboard: who the money and tokens went to
+  const leaderboard = modelLeaderboard(recap.projects.flatMap((p) => p.sessions));
+  if (leaderboard.length > 0) {
+    console.log(chalk.bold('  Models'));
+    const modelTable = new Table({
+      chars: tableChars(),
+      head: ['Model', 'Sessions', 'Messages', 'Tokens', 'Cost'].map((h) => chalk.dim(h)),
+      style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+      colAligns: ['left', 'right', 'right', 'right', 'right'],
+    });
+    for (const entry of leaderboard) {
+      modelTable.push([
+        entry.model,
+        String(entry.sessions),
+        String(entry.usage.messageCount),
+        formatTokens(entry.usage.tokens.total),
+        formatCost(entry.usage.costUsd),
+      ]);
+    }
+    console.log(modelTable.toString());
+    console.log('');
+  }
+
   // Per-project details
   for (const project of recap.projects) {
     renderProject(project);
@@ -84,6 +179,26 @@ function renderFull(recap: DayRecap): void {
   }
 }
 
+/** Per-model totals across sessions, most expensive first */
+function modelLeaderboard(sessions: Session[]): { model: string; sessions: number; usage: ModelUsage }[] {
+  const byModel = new Map<string, { model: string; sessions: number; usage: ModelUsage }>();
+  for (const session of sessions) {
+    for (const [model, usage] of Object.entries(session.modelUsage)) {
+      const entry = byModel.get(model) ?? { model, sessions: 0, usage: { tokens: emptyTokenUsage(), costUsd: 0, messageCount: 0 } };
+      byModel.set(model, {
+        model,
+        sessions: entry.sessions + 1,
+        usage: {
+          tokens: sumTokens(entry.usage.tokens, usage.tokens),
+          costUsd: entry.usage.costUsd + usage.costUsd,
+          messageCount: entry.usage.messageCount + usage.messageCount,
+        },
+      });
+    }
+  }
+  return [...byModel.values()].sort((a, b) => b.usage.costUsd - a.usage.costUsd || b.usage.tokens.total - a.usage.tokens.total);
+}
+
 function renderProject(project: ProjectSummary): void {
   console.log(chalk.bold.green(`  ${project.projectName}`));
   console.log(chalk.dim(`  ${project.projectPath}`));
@@ -95,24 +210,29 @@ function renderProject(project: ProjectSummary): void {
     console.log('');
   }
 
-  // Sessions table
+  // Sessions table (with the commits each led to, when the project is a git repo)
   if (project.sessions.length > 0) {
+    const showCommits = project.git !== null;
     const sessTable = new Table({
       chars: tableChars(),
-      head: ['Session', 'Messages', 'Model', 'Cost', 'Duration'].map((h) => chalk.dim(h)),
+      head: ['Session', 'Messages', 'Model', 'Cost', 'Active', ...(showCommits ? ['Commits'] : [])].map((h) => chalk.dim(h)),
       style: { head: [], 'padding-left': 1, 'padding-right': 1 },
-      colWidths: [35, 10, 25, 10, 12],
+      colWidths: showCommits ? [30, 10, 22, 10, 12, 18] : [35, 10, 25, 10, 12],
       wordWrap: true,
     });
 
     for (const session of project.sessions) {
-      sessTable.push([
-        truncate(session.title ?? session.id, 33),
+      const row = [
+        truncate(session.title ?? session.id, showCommits ? 28 : 33),
         String(session.messageCount),
         session.models.join(', ') || 'N/A',
-        formatCost(session.costUsd),
+        formatSessionCost(session),
         formatDuration(session.durationMs),
-      ]);
+      ];
+      if (showCommits) {
+        row.push(session.commitHashes?.length ? chalk.yellow(formatCommitRefs(session.commitHashes)) : chalk.dim('none'));
+      }
+      sessTable.push(row);
     }
 
     console.log(sessTable.toString());
@@ -120,9 +240,14 @@ function renderProject(project: ProjectSummary): void {
   }
 
   // Git summary
-  if (project.git && project.git.commits.length > 0) {
+  const wip = project.git ? describeWorkInProgress(project.git) : [];
+  if (project.git && (project.git.commits.length > 0 || wip.length > 0)) {
     console.log(chalk.dim('  Git'));
 
+    for (const line of wip) {
+      console.log(chalk.dim(`  ${line}`));
+    }
+
     for (const commit of project.git.commits.slice(0, 10)) {
       const sign = commit.insertions > 0 || commit.deletions > 0
         ? chalk.green(`+${commit.insertions}`) + chalk.red(`-${commit.deletions}`)
@@ -140,37 +265,222 @@ function renderProject(project: ProjectSummary): void {
   console.log('');
 }
 
-// ── Formatting helpers ───────────────────────────────────────────
+// ── Range recap (week / month / custom) ──────────────────────────
+
+export function renderRangeRecap(range: RangeRecap, options: { standup?: boolean; json?: boolean }): void {
+  if (options.json) {
+    console.log(JSON.stringify(range, null, 2));
+    return;
+  }
+
+  if (options.standup) {
+    renderRangeNarrative(range);
+    return;
+  }
 
-function formatTokens(tokens: number): string {
-  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
-  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
-  return String(tokens);
+  renderRangeFull(range);
 }
 
-function formatCost(usd: number): string {
-  if (usd === 0) return '$0.00';
-  if (usd < 0.01) return `$${usd.toFixed(4)}`;
-  return `$${usd.toFixed(2)}`;
+function renderRangeNarrative(range: RangeRecap): void {
+  console.log('');
+  console.log(chalk.bold.cyan(`  Summary for ${range.from} → ${range.to}`));
+  console.log(chalk.dim('  ' + '─'.repeat(50)));
+  console.log('');
+
+  if (range.narrative) {
+    for (const line of range.narrative.split('\n')) {
+      console.log(`  ${line}`);
+    }
+  } else {
+    console.log(chalk.dim('  No activity to report.'));
+  }
+
+  console.log('');
 }
 
-function formatDuration(ms: number): string {
-  if (ms <= 0) return '0s';
-  const seconds = Math.floor(ms / 1000);
-  if (seconds < 60) return `${seconds}s`;
-  const minutes = Math.floor(seconds / 60);
-  if (minutes < 60) return `${minutes}m`;
-  const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
-  return `${hours}h ${remainingMinutes}m`;
+function renderRangeFull(range: RangeRecap): void {
+  // Header
+  console.log('');
+  console.log(chalk.bold.cyan(`  devday - ${range.from} → ${range.to}`));
+  console.log(chalk.dim('  ' + '═'.repeat(60)));
+  console.log('');
+
+  // Overview stats
+  const overviewTable = new Table({
+    chars: tableChars(),
+    style: { head: ['cyan'], 'padding-left': 1, 'padding-right': 1 },
+  });
+  overviewTable.push(
+    [
+      { content: chalk.bold('Active days'), hAlign: 'center' },
+      { content: chalk.bold('Sessions'), hAlign: 'center' },
+      { content: chalk.bold('Commits'), hAlign: 'center' },
+      { content: chalk.bold('Tokens'), hAlign: 'center' },
+      { content: chalk.bold('Cost'), hAlign: 'center' },
+      { content: chalk.bold('Active'), hAlign: 'center' },
+      { content: chalk.bold('Tools'), hAlign: 'center' },
+    ],
+    [
+      { content: `${range.activeDays}/${range.days.length}`, hAlign: 'center' },
+      { content: String(range.totalSessions), hAlign: 'center' },
+      { content: String(range.totalCommits), hAlign: 'center' },
+      { content: formatTokens(range.totalTokens), hAlign: 'center' },
+      { content: formatCost(range.totalCostUsd), hAlign: 'center' },
+      { content: formatDuration(range.totalDurationMs), hAlign: 'center' },
+      { content: range.toolsUsed.join(', '), hAlign: 'center' },
+    ],
+  );
+  console.log(overviewTable.toString());
+  console.log('');
+
+  // Per-day breakdown
+  console.log(chalk.bold.green('  By day'));
+  const dayTable = new Table({
+    chars: tableChars(),
+    head: ['Date', 'Sessions', 'Commits', 'Cost', 'Active', 'Projects'].map((h) => chalk.dim(h)),
+    style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+    colWidths: [16, 10, 9, 10, 10, 30],
+    wordWrap: true,
+  });
+  for (const day of range.days) {
+    const commits = day.projects.reduce((sum, p) => sum + (p.git?.commits.length ?? 0), 0);
+    const row = [
+      `${day.date} ${format(parse(day.date, 'yyyy-MM-dd', new Date()), 'EEE')}`,
+      String(day.totalSessions),
+      String(commits),
+      formatCost(day.totalCostUsd),
+      formatDuration(day.totalDurationMs),
+      day.projects.map((p) => p.projectName).join(', '),
+    ];
+    dayTable.push(day.projects.length > 0 ? row : row.map((cell) => chalk.dim(cell)));
+  }
+  console.log(dayTable.toString());
+  console.log('');
+
+  // Per-project totals
+  if (range.projects.length > 0) {
+    console.log(chalk.bold.green('  By project'));
+    const projectTable = new Table({
+      chars: tableChars(),
+      head: ['Project', 'Days', 'Sessions', 'Commits', 'Cost', 'Active'].map((h) => chalk.dim(h)),
+      style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+      colWidths: [30, 7, 10, 16, 10, 12],
+      wordWrap: true,
+    });
+    for (const project of range.projects) {
+      projectTable.push([
+        truncate(project.projectName, 28),
+        String(project.activeDays.length),
+        String(project.totalSessions),
+        project.totalCommits > 0
+          ? `${project.totalCommits} ` + chalk.green(`+${project.totalInsertions}`) + chalk.red(`-${project.totalDeletions}`)
+          : '0',
+        formatCost(project.totalCostUsd),
+        formatDuration(project.totalDurationMs),
+      ]);
+    }
+    console.log(projectTable.toString());
+    console.log('');
+  }
+
+  // Narrative at the bottom
+  if (range.narrative) {
+    console.log(chalk.bold.yellow('  Summary'));
+    console.log(chalk.dim('  ' + '─'.repeat(50)));
+    for (const line of range.narrative.split('\n')) {
+      console.log(`  ${line}`);
+    }
+    console.log('');
+  }
 }
 
-function truncate(str: string, maxLen: number): string {
-  if (str.length <= maxLen) return str;
-  return str.slice(0, maxLen - 1) + '…';
+// ── Team recap ───────────────────────────────────────────────────
+
+/** Team recap in the terminal: per-person and per-project totals, who did what, and the team standup */
+export function renderTeamRecap(team: TeamRecap, options: { standup?: boolean } = {}): void {
+  console.log('');
+  if (options.standup) {
+    console.log(chalk.bold.cyan(`  Team standup for ${team.date}`));
+    console.log(chalk.dim('  ' + '─'.repeat(50)));
+    console.log('');
+    for (const line of team.standupMessage.split('\n')) console.log(`  ${line}`);
+    console.log('');
+    return;
+  }
+
+  console.log(chalk.bold.cyan(`  Team — ${team.date}`));
+  console.log(chalk.dim('  ' + '═'.repeat(60)));
+  console.log(`  ${team.members.length} people · ${team.totalSessions} sessions · ${team.totalCommits} commits · ${formatTokens(team.totalTokens)} tokens · ${formatCost(team.totalCostUsd)}`);
+  console.log('');
+
+  console.log(chalk.bold('  By person'));
+  const memberTable = new Table({
+    chars: tableChars(),
+    head: ['Person', 'Sessions', 'Commits', 'Tokens', 'Cost', 'Active', 'Projects'].map((h) => chalk.dim(h)),
+    style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+  });
+  for (const member of team.members) {
+    memberTable.push([
+      member.name,
+      String(member.totalSessions),
+      String(member.totalCommits),
+      formatTokens(member.totalTokens),
+      formatCost(member.totalCostUsd),
+      formatDuration(member.totalDurationMs),
+      truncate(member.projects.join(', '), 40),
+    ]);
+  }
+  console.log(memberTable.toString());
+  console.log('');
+
+  console.log(chalk.bold('  By project'));
+  const projectTable = new Table({
+    chars: tableChars(),
+    head: ['Project', 'People', 'Sessions', 'Commits', 'Cost', 'Active'].map((h) => chalk.dim(h)),
+    style: { head: [], 'padding-left': 1, 'padding-right': 1 },
+  });
+  for (const project of team.projects) {
+    projectTable.push([
+      project.projectName,
+      String(project.contributions.length),
+      String(project.totalSessions),
+      String(project.totalCommits),
+      formatCost(project.totalCostUsd),
+      formatDuration(project.totalDurationMs),
+    ]);
+  }
+  console.log(projectTable.toString());
+  console.log('');
+
+  const names = new Map(team.members.map((m) => [m.id, m.name]));
+  for (const project of team.projects) {
+    console.log(chalk.bold.green(`  ${project.projectName}`) + (project.remoteUrl ? chalk.dim(`  ${project.remoteUrl}`) : ''));
+    for (const c of project.contributions) {
+      const stats = [
+        `${c.sessions} session${c.sessions === 1 ? '' : 's'}`,
+        `${c.commits.length} commit${c.commits.length === 1 ? '' : 's'}`,
+        formatCost(c.costUsd),
+        formatDuration(c.durationMs),
+        c.tools.join(', '),
+      ].filter(Boolean).join(' · ');
+      console.log(`    ${chalk.bold(names.get(c.member) ?? c.member)} ${chalk.dim(stats)}`);
+      if (c.summary) console.log(`      ${c.summary.split('\n')[0]}`);
+      for (const commit of c.commits) {
+        console.log(chalk.dim(`      ${commit.shortHash} ${truncate(commit.message, 70)}`));
+      }
+    }
+    console.log('');
+  }
+
+  console.log(chalk.bold.yellow('  Standup'));
+  console.log(chalk.dim('  ' + '─'.repeat(50)));
+  for (const line of team.standupMessage.split('\n')) console.log(`  ${line}`);
+  console.log('');
 }
 
-function tableChars() {
+// ── Formatting helpers ───────────────────────────────────────────
+
+export function tableChars() {
   return {
     'top': '─', 'top-mid': '┬', 'top-left': '┌', 'top-right': '┐',
     'bottom': '─', 'bottom-mid': '┴', 'bottom-left': '└', 'bottom-right': '┘',
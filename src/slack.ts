@@ -0,0 +1,147 @@
+import type { DayRecap, ProjectSummary } from './types.js';
+import { formatTokens, formatCost, formatDuration, truncate } from './format.js';
+
+const SLACK_TIMEOUT_MS = 10_000;
+const MAX_SECTION_TEXT = 3000; // Block Kit limit for section text
+const MAX_HEADER_TEXT = 150;   // Block Kit limit for header text
+const MAX_BLOCKS = 50;         // Block Kit limit per message
+const MAX_COMMITS = 10;
+
+// Minimal slice of Block Kit we emit
+type SlackText = { type: 'plain_text' | 'mrkdwn'; text: string };
+type SlackBlock =
+  | { type: 'header'; text: SlackText }
+  | { type: 'section'; text: SlackText }
+  | { type: 'context'; elements: SlackText[] }
+  | { type: 'divider' };
+
+export interface SlackPayload {
+  text: string; // notification / fallback text
+  blocks: SlackBlock[];
+}
+
+/**
+ * Convert a day recap into a Block Kit message: header, standup, one section
+ * per project (summary + commits + stats), and a totals footer.
+ * With `standup`, only the header and standup text are included.
+ */
+export function buildSlackPayload(recap: DayRecap, options: { standup?: boolean } = {}): SlackPayload {
+  const title = options.standup ? `Standup for ${recap.date}` : `devday — ${recap.date}`;
+  const blocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(title, MAX_HEADER_TEXT) } },
+  ];
+
+  if (recap.standupMessage) {
+    blocks.push(section(toMrkdwn(recap.standupMessage)));
+  } else if (options.standup || recap.projects.length === 0) {
+    blocks.push(section('_No activity to report._'));
+  }
+
+  if (!options.standup) {
+    for (const project of recap.projects) {
+      blocks.push({ type: 'divider' }, ...projectBlocks(project));
+    }
+
+    blocks.push({ type: 'divider' }, {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: [
+          `${recap.totalSessions} session${recap.totalSessions === 1 ? '' : 's'}`,
+          `${recap.totalMessages} messages`,
+          `${formatTokens(recap.totalTokens)} tokens`,
+          formatCost(recap.totalCostUsd),
+          formatDuration(recap.totalDurationMs),
+          recap.toolsUsed.join(', '),
+        ].filter(Boolean).join(' · '),
+      }],
+    });
+  }
+
+  // Stay under the per-message block limit; the footer is the least important part to lose
+  if (blocks.length > MAX_BLOCKS) {
+    blocks.splice(MAX_BLOCKS - 1);
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: '_Truncated — run `devday` for the full recap._' }] });
+  }
+
+  return { text: title, blocks };
+}
+
+/**
+ * POST a payload to a Slack incoming webhook. Throws with Slack's error body on failure.
+ */
+export async function postToSlack(webhookUrl: string, payload: SlackPayload): Promise<void> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), SLACK_TIMEOUT_MS);
+  try {
+    const res = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      throw new Error(`Slack webhook returned ${res.status}${body ? `: ${truncate(body, 200)}` : ''}`);
+    }
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      throw new Error(`Slack webhook timed out after ${SLACK_TIMEOUT_MS / 1000}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// ── Blocks ───────────────────────────────────────────────────────
+
+function projectBlocks(project: ProjectSummary): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+
+  const summary = project.aiSummary ? `\n${toMrkdwn(project.aiSummary)}` : '';
+  blocks.push(section(`*${escapeMrkdwn(project.projectName)}*${summary}`));
+
+  const commits = project.git?.commits ?? [];
+  if (commits.length > 0) {
+    const lines = commits.slice(0, MAX_COMMITS).map((c) =>
+      `• \`${c.shortHash}\` ${escapeMrkdwn(c.message)} _(+${c.insertions}/-${c.deletions})_`,
+    );
+    if (commits.length > MAX_COMMITS) lines.push(`_…and ${commits.length - MAX_COMMITS} more_`);
+    blocks.push(section(lines.join('\n')));
+  }
+
+  const stats = [
+    `${project.totalSessions} session${project.totalSessions === 1 ? '' : 's'}`,
+    formatCost(project.totalCostUsd),
+    formatDuration(project.totalDurationMs),
+    project.toolsUsed.join(', '),
+  ];
+  blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: stats.filter(Boolean).join(' · ') }] });
+
+  return blocks;
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: truncate(text, MAX_SECTION_TEXT) } };
+}
+
+// ── Text conversion ──────────────────────────────────────────────
+
+/** LLM markdown → Slack mrkdwn: bullets, bold and headings */
+function toMrkdwn(text: string): string {
+  return escapeMrkdwn(text)
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/^(\s*)[-*]\s+/, '$1• ')
+        .replace(/^#{1,6}\s+(.*)$/, '*$1*')
+        .replace(/\*\*(.+?)\*\*/g, '*$1*'),
+    )
+    .join('\n');
+}
+
+/** Slack treats &, < and > as control characters in mrkdwn */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
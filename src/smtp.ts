@@ -0,0 +1,162 @@
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+import type { SmtpConfig } from './types.js';
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export interface Envelope {
+  from: string;
+  recipients: string[];
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Deliver one message over SMTP: EHLO, STARTTLS or implicit TLS as
+ * configured, AUTH PLAIN when a user is set, then MAIL / RCPT / DATA.
+ * `message` is a complete RFC 5322 message with CRLF line endings.
+ */
+export async function sendMail(smtp: SmtpConfig, envelope: Envelope, message: string): Promise<void> {
+  let conn = await SmtpConnection.open(smtp);
+  try {
+    await conn.expect(220);
+    let features = await conn.command(`EHLO ${hostname()}`, 250);
+
+    if (smtp.security === 'starttls') {
+      if (!features.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+        throw new Error(`${smtp.host} does not offer STARTTLS; set smtp.security to "tls" or "none"`);
+      }
+      await conn.command('STARTTLS', 220);
+      conn = await conn.upgrade(smtp.host);
+      features = await conn.command(`EHLO ${hostname()}`, 250);
+    }
+
+    if (smtp.user) {
+      if (smtp.password === null) throw new Error('smtp.user is set but DEVDAY_SMTP_PASSWORD is not');
+      if (!features.lines.some((l) => /^AUTH\b.*\bPLAIN\b/i.test(l))) {
+        throw new Error(`${smtp.host} does not offer AUTH PLAIN`);
+      }
+      const credentials = Buffer.from(`\0${smtp.user}\0${smtp.password}`).toString('base64');
+      await conn.command(`AUTH PLAIN ${credentials}`, 235, 'AUTH PLAIN');
+    }
+
+    await conn.command(`MAIL FROM:<${envelope.from}>`, 250);
+    for (const recipient of envelope.recipients) {
+      await conn.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await conn.command('DATA', 354);
+    await conn.command(dotStuff(message) + '\r\n.', 250, 'message body');
+    await conn.command('QUIT', 221).catch(() => undefined);
+  } finally {
+    conn.close();
+  }
+}
+
+/** Lines starting with "." get another one, so they can't end the DATA section */
+function dotStuff(message: string): string {
+  return message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..').replace(/\r\n$/, '');
+}
+
+// ── Connection ───────────────────────────────────────────────────
+
+class SmtpConnection {
+  private buffer = '';
+  private pending: string[] = [];
+  private waiting: { resolve: (line: string) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: Socket) {
+    socket.setEncoding('utf-8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP server closed the connection')));
+  }
+
+  static open(smtp: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = smtp.security === 'tls'
+        ? connectTls({ host: smtp.host, port: smtp.port, servername: smtp.host }, () => resolve(new SmtpConnection(socket)))
+        : connectTcp({ host: smtp.host, port: smtp.port }, () => resolve(new SmtpConnection(socket)));
+      socket.once('error', reject);
+    });
+  }
+
+  /** Switch the connection to TLS after a successful STARTTLS */
+  upgrade(host: string): Promise<SmtpConnection> {
+    this.socket.removeAllListeners('data').removeAllListeners('close').removeAllListeners('error');
+    this.socket.setTimeout(0);
+    return new Promise((resolve, reject) => {
+      const secure = connectTls({ socket: this.socket, servername: host }, () => resolve(new SmtpConnection(secure)));
+      secure.once('error', reject);
+    });
+  }
+
+  /** Send a command and check the reply code. `label` replaces the command in errors. */
+  async command(line: string, expected: number | number[], label = line): Promise<Reply> {
+    this.socket.write(line + '\r\n');
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number | number[], label = 'greeting'): Promise<Reply> {
+    const reply = await this.readReply();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  /** A reply is one or more "250-..." lines ended by a "250 ..." line */
+  private async readReply(): Promise<Reply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.readLine();
+      const match = line.match(/^(\d{3})([ -])(.*)$/);
+      if (!match) throw new Error(`unexpected SMTP reply: ${line}`);
+      lines.push(match[3]);
+      if (match[2] === ' ') return { code: Number(match[1]), lines };
+    }
+  }
+
+  private readLine(): Promise<string> {
+    const line = this.pending.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\r\n');
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (this.waiting) {
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(line);
+      } else {
+        this.pending.push(line);
+      }
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(err);
+    }
+  }
+}
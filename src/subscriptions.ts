@@ -0,0 +1,54 @@
+import { daysInMonth, monthToDate } from './dates.js';
+import type { DevDayConfig, Session, SubscriptionUsage, ToolName } from './types.js';
+
+/**
+ * Compare flat-rate plans with pay-as-you-go pricing for a day and its month
+ * so far. `earlierSessions` covers the first of the month up to the day
+ * before `date`. Sessions' costUsd is taken as the API-equivalent price.
+ *
+ * The seat price is spread evenly over the month. Usage beyond a plan's
+ * included amount is billed at API prices on top.
+ */
+export function buildSubscriptionUsage(
+  date: string,
+  plans: DevDayConfig['plans'],
+  tools: ToolName[],
+  daySessions: Session[],
+  earlierSessions: Session[],
+): SubscriptionUsage[] {
+  const range = monthToDate(date);
+  const days = daysInMonth(date);
+  const elapsedDays = Number(date.slice(8, 10));
+
+  const usage: SubscriptionUsage[] = [];
+  for (const tool of tools) {
+    const plan = plans[tool];
+    if (!plan) continue;
+
+    const apiToday = sumCost(daySessions.filter((s) => s.tool === tool));
+    const apiMonthToDate = sumCost(earlierSessions.filter((s) => s.tool === tool)) + apiToday;
+
+    const overage = (spent: number) => plan.includedUsd === null ? 0 : Math.max(0, spent - plan.includedUsd);
+    const overageUsd = overage(apiMonthToDate);
+    const overageToday = overageUsd - overage(apiMonthToDate - apiToday);
+    const dailySeatUsd = plan.monthlyUsd / days;
+
+    usage.push({
+      tool,
+      plan,
+      apiEquivalentUsd: apiToday,
+      amortizedUsd: dailySeatUsd + overageToday,
+      monthToDate: {
+        ...range,
+        apiEquivalentUsd: apiMonthToDate,
+        amortizedUsd: dailySeatUsd * elapsedDays + overageUsd,
+        overageUsd,
+      },
+    });
+  }
+  return usage;
+}
+
+function sumCost(sessions: Session[]): number {
+  return sessions.reduce((sum, s) => sum + s.costUsd, 0);
+}
@@ -1,6 +1,17 @@
-import type { DayRecap, DevDayConfig, ProjectSummary } from './types.js';
+import type { DayRecap, DevDayConfig, LocalLlmConfig, ProjectSummary, RangeRecap } from './types.js';
+import { summaryCacheKey, readCachedSummary, writeCachedSummary } from './summary-cache.js';
+import { describeWorkInProgress } from './format.js';
+import { dayWindow, shiftDate } from './dates.js';
 
 const LLM_TIMEOUT_MS = 30_000;
+const LOCAL_LLM_TIMEOUT_MS = 120_000; // local models on a laptop CPU/GPU are much slower
+
+/** Model used by each hosted summarizer backend. The local model comes from config. */
+const SUMMARIZER_MODELS: Record<Exclude<DevDayConfig['preferredSummarizer'], 'none' | 'local'>, string> = {
+  concentrate: 'gpt-5-mini',
+  anthropic: 'claude-3-5-haiku-20241022',
+  openai: 'gpt-4o-mini',
+};
 
 // ── Error types ──────────────────────────────────────────────────
 
@@ -19,24 +30,31 @@ const noopLogger: SummarizeLogger = {
   warn: () => {},
 };
 
+export interface SummarizeOptions {
+  /** Ignore cached summaries and call the LLM again (the new result is still cached). */
+  refresh?: boolean;
+}
+
 // ── Public API ───────────────────────────────────────────────────
 
 /**
  * Generate LLM-powered summaries for the day recap.
- * Requires an API key (CONCENTRATE_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY).
+ * Requires an API key (CONCENTRATE_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY)
+ * or a local endpoint (DEVDAY_LLM_BASE_URL).
  * Returns the recap with summaries filled in, or null fields if LLM calls fail.
  */
 export async function summarizeRecap(
   recap: DayRecap,
   config: DevDayConfig,
   logger: SummarizeLogger = noopLogger,
+  options: SummarizeOptions = {},
 ): Promise<DayRecap> {
   const provider = config.preferredSummarizer;
   let hasFailure = false;
 
   // Generate project-level summaries
   for (const project of recap.projects) {
-    const result = await summarizeProject(project, config, logger);
+    const result = await summarizeProject(project, config, logger, options);
     if (result === null) hasFailure = true;
     project.aiSummary = result;
   }
@@ -49,21 +67,131 @@ export async function summarizeRecap(
     return recap;
   }
 
-  const standupResult = await generateStandup(recap, config, logger);
+  const standupResult = await generateStandup(recap, config, logger, options);
   recap.standupMessage = standupResult;
 
   return recap;
 }
 
+/**
+ * Generate a multi-day narrative for a week / month / custom range.
+ * Makes a single LLM call over per-project, per-day activity rather than
+ * summarizing each day separately.
+ */
+export async function summarizeRange(
+  range: RangeRecap,
+  config: DevDayConfig,
+  logger: SummarizeLogger = noopLogger,
+  options: SummarizeOptions = {},
+): Promise<RangeRecap> {
+  if (range.totalSessions === 0 && range.totalCommits === 0) return range;
+
+  const prompt = buildRangePrompt(range);
+  const result = await callLlmCached(config, prompt, logger, options);
+
+  if (!result.ok) {
+    logger.warn(`range narrative failed: ${result.error}`);
+    return range;
+  }
+
+  range.narrative = result.text;
+  return range;
+}
+
+/**
+ * Model the configured summarizer will call: the `summarizerModel` override,
+ * else the local endpoint's model or the provider default. Null when summaries are off.
+ */
+export function getSummarizerModel(config: DevDayConfig): string | null {
+  const provider = config.preferredSummarizer;
+  if (provider === 'none') return null;
+  if (config.summarizerModel) return config.summarizerModel;
+  if (provider === 'local') return config.localLlm?.model ?? null;
+  return SUMMARIZER_MODELS[provider];
+}
+
+export interface AuthCheck {
+  provider: Exclude<DevDayConfig['preferredSummarizer'], 'none'>;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Check that every configured summarizer credential actually authenticates.
+ * Uses model-list endpoints where the provider has one, so no tokens are spent;
+ * Concentrate gets a minimal request instead.
+ */
+export async function checkSummarizerAuth(config: DevDayConfig): Promise<AuthCheck[]> {
+  const checks: Array<Promise<AuthCheck>> = [];
+
+  if (config.localLlm) {
+    const local = config.localLlm;
+    checks.push(probe('local', `${local.baseUrl.replace(/\/+$/, '')}/models`, {
+      headers: local.apiKey ? { Authorization: `Bearer ${local.apiKey}` } : {},
+    }, (data) => {
+      const ids = ((data as { data?: Array<{ id?: string }> }).data ?? []).map((m) => m.id);
+      const model = config.preferredSummarizer === 'local' ? getSummarizerModel(config) : local.model;
+      return ids.length === 0 || ids.includes(model ?? undefined)
+        ? { ok: true, detail: `${local.baseUrl} reachable` }
+        : { ok: false, detail: `${local.baseUrl} reachable, but model "${model}" is not in its list (${ids.slice(0, 5).join(', ')})` };
+    }));
+  }
+  if (config.concentrateApiKey) {
+    checks.push(probe('concentrate', 'https://api.concentrate.ai/v1/responses', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.concentrateApiKey}` },
+      body: JSON.stringify({ model: SUMMARIZER_MODELS.concentrate, max_output_tokens: 16, input: 'ping' }),
+    }));
+  }
+  if (config.openaiApiKey) {
+    checks.push(probe('openai', 'https://api.openai.com/v1/models', {
+      headers: { Authorization: `Bearer ${config.openaiApiKey}` },
+    }));
+  }
+  if (config.anthropicApiKey) {
+    checks.push(probe('anthropic', 'https://api.anthropic.com/v1/models', {
+      headers: { 'x-api-key': config.anthropicApiKey, 'anthropic-version': '2023-06-01' },
+    }));
+  }
+
+  return Promise.all(checks);
+}
+
+async function probe(
+  provider: AuthCheck['provider'],
+  url: string,
+  init: RequestInit,
+  describeOk: (data: unknown) => { ok: boolean; detail: string } = () => ({ ok: true, detail: 'authenticated' }),
+): Promise<AuthCheck> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 10_000);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      const result = describeHttpError(res.status, body, provider);
+      return { provider, ok: false, detail: result.ok ? `HTTP ${res.status}` : result.error };
+    }
+    const data: unknown = await res.json().catch(() => ({}));
+    return { provider, ...describeOk(data) };
+  } catch (err) {
+    const result = describeException(err, provider, 10_000);
+    return { provider, ok: false, detail: result.ok ? 'unknown error' : result.error };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 // ── Summarize helpers ────────────────────────────────────────────
 
 async function summarizeProject(
   project: ProjectSummary,
   config: DevDayConfig,
   logger: SummarizeLogger,
+  options: SummarizeOptions,
 ): Promise<string | null> {
   const prompt = buildProjectPrompt(project);
-  const result = await callLlm(config, prompt, logger);
+  const result = await callLlmCached(config, prompt, logger, options);
 
   if (!result.ok) {
     logger.warn(`summary failed for "${project.projectName}": ${result.error}`);
@@ -76,9 +204,10 @@ async function generateStandup(
   recap: DayRecap,
   config: DevDayConfig,
   logger: SummarizeLogger,
+  options: SummarizeOptions,
 ): Promise<string | null> {
   const prompt = buildStandupPrompt(recap, config);
-  const result = await callLlm(config, prompt, logger);
+  const result = await callLlmCached(config, prompt, logger, options);
 
   if (!result.ok) {
     logger.warn(`standup generation failed: ${result.error}`);
@@ -87,6 +216,37 @@ async function generateStandup(
   return result.text;
 }
 
+/**
+ * callLlm with an on-disk cache keyed by prompt + provider + model (+ local endpoint), so
+ * re-running devday for the same day reuses earlier wording instead of paying again.
+ */
+async function callLlmCached(
+  config: DevDayConfig,
+  prompt: string,
+  logger: SummarizeLogger,
+  options: SummarizeOptions,
+): Promise<LlmResult> {
+  const provider = config.preferredSummarizer;
+  // With Linear MCP the model queries live issues, so the same prompt can deserve a new answer
+  if (provider === 'none' || hasLinearMcp(config)) return callLlm(config, prompt, logger);
+
+  const model = getSummarizerModel(config) ?? 'unknown';
+  const baseUrl = provider === 'local' ? config.localLlm?.baseUrl ?? null : null;
+  const key = summaryCacheKey(provider, model, prompt, baseUrl);
+
+  if (!options.refresh) {
+    const cached = readCachedSummary(key);
+    if (cached !== null) {
+      logger.debug(`${provider}: using cached summary ${key.slice(0, 12)}`);
+      return { ok: true, text: cached };
+    }
+  }
+
+  const result = await callLlm(config, prompt, logger);
+  if (result.ok) writeCachedSummary(key, provider, model, result.text);
+  return result;
+}
+
 /**
  * Route to the correct LLM backend based on config.
  */
@@ -96,15 +256,19 @@ async function callLlm(
   logger: SummarizeLogger,
 ): Promise<LlmResult> {
   const linearMcpTool = getLinearMcpTool(config);
+  const model = getSummarizerModel(config);
 
-  if (config.preferredSummarizer === 'concentrate' && config.concentrateApiKey) {
-    return callConcentrate(config.concentrateApiKey, prompt, linearMcpTool, logger);
+  if (config.preferredSummarizer === 'local' && config.localLlm && model) {
+    return callLocal(config.localLlm, model, prompt, logger);
   }
-  if (config.preferredSummarizer === 'anthropic' && config.anthropicApiKey) {
-    return callAnthropic(config.anthropicApiKey, prompt, logger);
+  if (config.preferredSummarizer === 'concentrate' && config.concentrateApiKey && model) {
+    return callConcentrate(config.concentrateApiKey, model, prompt, linearMcpTool, logger);
   }
-  if (config.preferredSummarizer === 'openai' && config.openaiApiKey) {
-    return callOpenAI(config.openaiApiKey, prompt, linearMcpTool, logger);
+  if (config.preferredSummarizer === 'anthropic' && config.anthropicApiKey && model) {
+    return callAnthropic(config.anthropicApiKey, model, prompt, logger);
+  }
+  if (config.preferredSummarizer === 'openai' && config.openaiApiKey && model) {
+    return callOpenAI(config.openaiApiKey, model, prompt, linearMcpTool, logger);
   }
   return { ok: false, error: 'no API key configured', retriable: false };
 }
@@ -128,18 +292,23 @@ function buildProjectPrompt(project: ProjectSummary): string {
 
   const gitLines = project.git?.commits
     .map((c) => `- ${c.shortHash}: ${c.message} (+${c.insertions}/-${c.deletions})`)
-    .join('\n') ?? 'No git commits';
+    .join('\n') || 'No git commits';
+
+  const wipLines = project.git ? describeWorkInProgress(project.git) : [];
+  const wipBlock = wipLines.length > 0
+    ? `\n\n--- Work in Progress (not in the commits above) ---\n${wipLines.map((line) => `- ${line}`).join('\n')}`
+    : '';
 
   return `You are writing a daily recap for a developer, summarizing their coding sessions. Write in FIRST PERSON ("I built...", "I fixed...", "I worked on..."). Read the conversation content and write a concise 2-3 sentence summary of what was accomplished. Focus on the specific work done (features built, bugs fixed, refactoring, debugging, etc.), not the tools or process.
 
 Project: ${project.projectName}
-Duration: ${Math.round(project.totalDurationMs / 60_000)} minutes across ${project.totalSessions} session(s)
+Active time: ${Math.round(project.totalDurationMs / 60_000)} minutes across ${project.totalSessions} session(s), ${Math.round(project.agentBusyMs / 60_000)} of them with an agent working
 
 --- Conversation Content ---
 ${conversationContext}
 
 --- Git Commits ---
-${gitLines}
+${gitLines}${wipBlock}
 
 Write a concise summary (2-3 sentences) in first person. Be specific about what was built/fixed/changed. Do not mention AI tools, session counts, or refer to "the developer".`;
 }
@@ -152,19 +321,18 @@ function hasLinearMcp(config: DevDayConfig): boolean {
   return providerSupportsMcp(config.preferredSummarizer) && !!config.linearMcpServerUrl;
 }
 
-function getPreviousDate(date: string): string {
-  const parsed = new Date(`${date}T00:00:00Z`);
-  if (Number.isNaN(parsed.getTime())) return date;
-  parsed.setUTCDate(parsed.getUTCDate() - 1);
-  return parsed.toISOString().slice(0, 10);
+/** A recap day as exact instants, so Linear's own time zone doesn't shift it */
+function describeDay(date: string): string {
+  const { startMs, endMs } = dayWindow(date);
+  return `${date} (${new Date(startMs).toISOString()} to ${new Date(endMs + 1).toISOString()})`;
 }
 
 function buildLinearMcpPromptBlock(recapDate: string): string {
-  const previousDate = getPreviousDate(recapDate);
+  const previousDate = shiftDate(recapDate, -1);
   return `
 You have access to a Linear MCP server tool labeled "linear". Before writing the final answer, query Linear and pull:
-- tickets created on ${recapDate}
-- tickets closed/completed on ${recapDate} (if empty, check ${previousDate})
+- tickets created on ${describeDay(recapDate)}
+- tickets closed/completed on ${describeDay(recapDate)} (if empty, check ${describeDay(previousDate)})
 - tickets currently assigned to me
 - tickets currently in active/in-progress states
 
@@ -206,6 +374,39 @@ ${linearMcpInstructions}
 Write the standup as bullet points, starting each with "- ". First person, specific, concise.`;
 }
 
+function buildRangePrompt(range: RangeRecap): string {
+  const projectBlocks = range.projects
+    .map((totals) => {
+      let block = `## ${totals.projectName}\n`;
+      block += `Active on ${totals.activeDays.length} day(s), ${Math.round(totals.totalDurationMs / 60_000)} minutes, ${totals.totalCommits} commit(s)\n`;
+
+      for (const day of range.days) {
+        const project = day.projects.find((p) => p.projectPath === totals.projectPath);
+        if (!project) continue;
+
+        block += `\n### ${day.date}\n`;
+        for (const session of project.sessions) {
+          block += `- Session "${session.title ?? 'Untitled'}"`;
+          if (session.conversationDigest) {
+            block += `: ${session.conversationDigest.slice(0, 300).replace(/\s+/g, ' ')}`;
+          }
+          block += '\n';
+        }
+        if (project.git && project.git.commits.length > 0) {
+          block += `Git: ${project.git.commits.map((c) => c.message).join('; ')}\n`;
+        }
+      }
+      return block;
+    })
+    .join('\n\n');
+
+  return `You are writing a status report for a developer covering ${range.from} to ${range.to}. Write in FIRST PERSON ("I built...", "I fixed...", "I worked on..."). Summarize the period as a narrative, not a day-by-day log: lead with the most significant outcomes, then group the remaining work by project. Mention how work progressed over the period when it is clear from the dates (e.g. started, iterated on, shipped).
+
+${projectBlocks}
+
+Write 1 short paragraph overview followed by 3-8 bullet points starting with "- ". Past tense, specific, concise. Do not include cost, token, or session count information. Do not use markdown headers. Do not mention AI tools or refer to "the developer".`;
+}
+
 // ── HTTP error helpers ───────────────────────────────────────────
 
 function describeHttpError(status: number, body: string, provider: string): LlmResult {
@@ -229,9 +430,9 @@ function describeHttpError(status: number, body: string, provider: string): LlmR
   }
 }
 
-function describeException(err: unknown, provider: string): LlmResult {
+function describeException(err: unknown, provider: string, timeoutMs = LLM_TIMEOUT_MS): LlmResult {
   if (err instanceof DOMException && err.name === 'AbortError') {
-    return { ok: false, error: `${provider}: request timed out after ${LLM_TIMEOUT_MS / 1000}s`, retriable: true };
+    return { ok: false, error: `${provider}: request timed out after ${timeoutMs / 1000}s`, retriable: true };
   }
   if (err instanceof TypeError && (err.message.includes('fetch') || err.message.includes('network'))) {
     return { ok: false, error: `${provider}: network error — ${err.message}`, retriable: true };
@@ -300,6 +501,7 @@ function extractResponseText(data: unknown, provider: string): LlmResult {
 
 async function callConcentrate(
   apiKey: string,
+  model: string,
   prompt: string,
   linearMcpTool: Record<string, unknown> | null,
   logger: SummarizeLogger,
@@ -309,11 +511,11 @@ async function callConcentrate(
   const timeout = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
   try {
     logger.debug(
-      `${provider}: calling gpt-5-mini (reasoning: low${linearMcpTool ? ', linear MCP enabled' : ''})`,
+      `${provider}: calling ${model} (reasoning: low${linearMcpTool ? ', linear MCP enabled' : ''})`,
     );
 
     const body: Record<string, unknown> = {
-      model: 'gpt-5-mini',
+      model,
       max_output_tokens: 600,
       reasoning: { effort: 'low' },
       input: prompt,
@@ -365,12 +567,12 @@ async function callConcentrate(
   }
 }
 
-async function callAnthropic(apiKey: string, prompt: string, logger: SummarizeLogger): Promise<LlmResult> {
+async function callAnthropic(apiKey: string, model: string, prompt: string, logger: SummarizeLogger): Promise<LlmResult> {
   const provider = 'anthropic';
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
   try {
-    logger.debug(`${provider}: calling claude-3-5-haiku`);
+    logger.debug(`${provider}: calling ${model}`);
 
     const res = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
@@ -380,7 +582,7 @@ async function callAnthropic(apiKey: string, prompt: string, logger: SummarizeLo
         'anthropic-version': '2023-06-01',
       },
       body: JSON.stringify({
-        model: 'claude-3-5-haiku-20241022',
+        model,
         max_tokens: 400,
         messages: [{ role: 'user', content: prompt }],
       }),
@@ -414,6 +616,7 @@ async function callAnthropic(apiKey: string, prompt: string, logger: SummarizeLo
 
 async function callOpenAI(
   apiKey: string,
+  model: string,
   prompt: string,
   linearMcpTool: Record<string, unknown> | null,
   logger: SummarizeLogger,
@@ -422,10 +625,10 @@ async function callOpenAI(
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
   try {
-    logger.debug(`${provider}: calling gpt-4o-mini${linearMcpTool ? ' with linear MCP' : ''}`);
+    logger.debug(`${provider}: calling ${model}${linearMcpTool ? ' with linear MCP' : ''}`);
 
     const body: Record<string, unknown> = {
-      model: 'gpt-4o-mini',
+      model,
       max_output_tokens: 400,
       input: prompt,
     };
@@ -461,3 +664,59 @@ async function callOpenAI(
     clearTimeout(timeout);
   }
 }
+
+/**
+ * Call a self-hosted server over the OpenAI chat-completions protocol
+ * (Ollama, llama.cpp server, vLLM, LM Studio). Nothing leaves the configured host.
+ */
+async function callLocal(local: LocalLlmConfig, model: string, prompt: string, logger: SummarizeLogger): Promise<LlmResult> {
+  const provider = 'local';
+  const url = `${local.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), LOCAL_LLM_TIMEOUT_MS);
+  try {
+    logger.debug(`${provider}: calling ${model} at ${url}`);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (local.apiKey) headers.Authorization = `Bearer ${local.apiKey}`;
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        max_tokens: 600,
+        temperature: 0.3,
+        stream: false,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      if (res.status === 404) {
+        return { ok: false, error: `${provider}: model "${model}" or endpoint not found at ${url}`, retriable: false };
+      }
+      return describeHttpError(res.status, body, provider);
+    }
+
+    const data = (await res.json()) as { choices?: Array<{ message?: { content?: unknown } }> };
+    const content = data.choices?.[0]?.message?.content;
+    // Reasoning models (qwen3, deepseek-r1) inline their chain of thought
+    const text = typeof content === 'string' ? content.replace(/<think>[\s\S]*?<\/think>/g, '').trim() : '';
+    if (!text) {
+      return { ok: false, error: `${provider}: no text in chat completion response`, retriable: false };
+    }
+
+    logger.debug(`${provider}: success`);
+    return { ok: true, text };
+  } catch (err) {
+    if (err instanceof TypeError && err.message.includes('fetch')) {
+      return { ok: false, error: `${provider}: cannot reach ${local.baseUrl} — is the server running?`, retriable: true };
+    }
+    return describeException(err, provider, LOCAL_LLM_TIMEOUT_MS);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,67 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getConfigDir } from './config.js';
+
+const CACHE_DIR = join(getConfigDir(), 'cache', 'summaries');
+
+interface CachedSummary {
+  provider: string;
+  model: string;
+  createdAt: string; // ISO 8601
+  text: string;
+}
+
+/**
+ * Cache key for an LLM summary: the exact prompt plus the provider and model
+ * that answered it. Any change to the underlying sessions or commits changes
+ * the prompt, so stale entries are never returned — they are just left behind.
+ * Local servers can serve anything under a model name, so their endpoint
+ * is part of the key too.
+ */
+export function summaryCacheKey(provider: string, model: string, prompt: string, baseUrl: string | null = null): string {
+  const hash = createHash('sha256')
+    .update(provider)
+    .update('\0')
+    .update(model)
+    .update('\0')
+    .update(prompt);
+  if (baseUrl) hash.update('\0').update(baseUrl);
+  return hash.digest('hex');
+}
+
+export function readCachedSummary(key: string): string | null {
+  const filePath = join(CACHE_DIR, `${key}.json`);
+  if (!existsSync(filePath)) return null;
+
+  try {
+    const entry = JSON.parse(readFileSync(filePath, 'utf-8')) as CachedSummary;
+    return typeof entry.text === 'string' ? entry.text : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeCachedSummary(key: string, provider: string, model: string, text: string): void {
+  const entry: CachedSummary = { provider, model, createdAt: new Date().toISOString(), text };
+  try {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    writeFileSync(join(CACHE_DIR, `${key}.json`), JSON.stringify(entry, null, 2), 'utf-8');
+  } catch {
+    // Caching is best-effort — a read-only config dir shouldn't fail the recap
+  }
+}
+
+/**
+ * Delete every cached summary. Returns the number of entries removed.
+ */
+export function clearSummaryCache(): number {
+  if (!existsSync(CACHE_DIR)) return 0;
+  const count = readdirSync(CACHE_DIR).filter((f) => f.endsWith('.json')).length;
+  rmSync(CACHE_DIR, { recursive: true, force: true });
+  return count;
+}
+
+export function getSummaryCacheDir(): string {
+  return CACHE_DIR;
+}
@@ -0,0 +1,210 @@
+import { basename, extname } from 'node:path';
+import type { DayRecap, GitCommit, TeamContribution, TeamMember, TeamProject, TeamRecap, ToolName } from './types.js';
+
+export interface TeamExport {
+  recap: DayRecap;
+  source: string;                 // file it was read from, for messages and anonymous exports
+}
+
+/**
+ * Parse one developer's `devday --json` export. Throws when the file isn't a
+ * single-day recap. Dates are revived so the recap can be merged like a fresh one.
+ */
+export function parseTeamExport(raw: string, source: string): TeamExport {
+  let recap: DayRecap;
+  try {
+    recap = JSON.parse(raw) as DayRecap;
+  } catch (err) {
+    throw new Error(`${source}: not valid JSON (${err instanceof Error ? err.message : err})`);
+  }
+  if (!recap || typeof recap.date !== 'string' || !Array.isArray(recap.projects)) {
+    throw new Error(`${source}: not a day recap — export one with \`devday -d <date> --json\``);
+  }
+
+  for (const project of recap.projects) {
+    for (const session of project.sessions ?? []) {
+      session.startedAt = new Date(session.startedAt);
+      session.endedAt = new Date(session.endedAt);
+    }
+    for (const commit of project.git?.commits ?? []) {
+      commit.timestamp = new Date(commit.timestamp);
+    }
+  }
+  return { recap, source };
+}
+
+/**
+ * Combine several developers' recaps of the same day. Projects are matched by
+ * their git remote, so clones at different paths count as one project;
+ * projects without a remote stay separate per person. A commit that shows up
+ * in several exports (teammates who pulled each other's work) counts once,
+ * for the person whose name or email matches its author.
+ */
+export function buildTeamRecap(exports: TeamExport[]): TeamRecap {
+  if (exports.length === 0) throw new Error('no recaps to merge');
+
+  const date = exports[0].recap.date;
+  const otherDay = exports.find((e) => e.recap.date !== date);
+  if (otherDay) {
+    throw new Error(`${otherDay.source} is for ${otherDay.recap.date}, but ${exports[0].source} is for ${date}; merge one day at a time`);
+  }
+
+  const members = exports.map((e) => memberOf(e));
+  const seen = new Map<string, string>();
+  exports.forEach((e, i) => {
+    const earlier = seen.get(members[i].id);
+    if (earlier) throw new Error(`${earlier} and ${e.source} are both from ${members[i].id}`);
+    seen.set(members[i].id, e.source);
+  });
+
+  // ── Group every project by remote ─────────────────────────────
+  const projects = new Map<string, TeamProject>();
+  const commitsByProject = new Map<string, { member: TeamMember; commit: GitCommit }[]>();
+
+  exports.forEach(({ recap }, i) => {
+    const member = members[i];
+    for (const project of recap.projects) {
+      const remoteUrl = project.git?.remoteUrl ?? null;
+      const key = remoteUrl ? normalizeRemote(remoteUrl) : `${member.id}:${project.projectPath}`;
+
+      const team = projects.get(key) ?? {
+        key,
+        // Without a remote it can't be matched across people, so say whose it is
+        projectName: remoteUrl ? repoName(remoteUrl) : `${project.projectName} (${member.name})`,
+        remoteUrl,
+        contributions: [],
+        totalSessions: 0,
+        totalCommits: 0,
+        totalCostUsd: 0,
+        totalDurationMs: 0,
+      };
+      projects.set(key, team);
+
+      // Two clones of one repo on the same machine add up to one contribution
+      const existing = team.contributions.find((c) => c.member === member.id);
+      const contribution: TeamContribution = existing ?? {
+        member: member.id,
+        sessions: 0,
+        commits: [],
+        costUsd: 0,
+        durationMs: 0,
+        tools: [],
+        summary: null,
+      };
+      contribution.sessions += project.totalSessions;
+      contribution.costUsd += project.totalCostUsd;
+      contribution.durationMs += project.totalDurationMs;
+      contribution.tools = [...new Set<ToolName>([...contribution.tools, ...project.toolsUsed])];
+      contribution.summary = [contribution.summary, project.aiSummary].filter(Boolean).join('\n\n') || null;
+      if (!existing) team.contributions.push(contribution);
+
+      const commits = commitsByProject.get(key) ?? [];
+      commits.push(...(project.git?.commits ?? []).map((commit) => ({ member, commit })));
+      commitsByProject.set(key, commits);
+    }
+  });
+
+  // ── Credit each commit once ───────────────────────────────────
+  for (const [key, entries] of commitsByProject) {
+    const team = projects.get(key)!;
+    const byHash = new Map<string, { member: TeamMember; commit: GitCommit }[]>();
+    for (const entry of entries) byHash.set(entry.commit.hash, [...(byHash.get(entry.commit.hash) ?? []), entry]);
+
+    for (const copies of byHash.values()) {
+      const owner = copies.find((c) => isAuthor(c.member, c.commit.author)) ?? copies[0];
+      const contribution = team.contributions.find((c) => c.member === owner.member.id)!;
+      contribution.commits.push(owner.commit);
+    }
+    for (const contribution of team.contributions) {
+      contribution.commits.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+  }
+
+  // ── Totals ────────────────────────────────────────────────────
+  const teamProjects = [...projects.values()];
+  for (const project of teamProjects) {
+    project.contributions.sort((a, b) => b.costUsd - a.costUsd);
+    project.totalSessions = project.contributions.reduce((sum, c) => sum + c.sessions, 0);
+    project.totalCommits = project.contributions.reduce((sum, c) => sum + c.commits.length, 0);
+    project.totalCostUsd = project.contributions.reduce((sum, c) => sum + c.costUsd, 0);
+    project.totalDurationMs = project.contributions.reduce((sum, c) => sum + c.durationMs, 0);
+  }
+  teamProjects.sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+
+  for (const member of members) {
+    const mine = teamProjects.filter((p) => p.contributions.some((c) => c.member === member.id));
+    member.projects = mine.map((p) => p.projectName);
+    member.totalCommits = mine.reduce(
+      (sum, p) => sum + p.contributions.filter((c) => c.member === member.id).reduce((n, c) => n + c.commits.length, 0),
+      0,
+    );
+  }
+
+  return {
+    date,
+    members,
+    projects: teamProjects,
+    totalSessions: members.reduce((sum, m) => sum + m.totalSessions, 0),
+    totalCommits: teamProjects.reduce((sum, p) => sum + p.totalCommits, 0),
+    totalTokens: members.reduce((sum, m) => sum + m.totalTokens, 0),
+    totalCostUsd: members.reduce((sum, m) => sum + m.totalCostUsd, 0),
+    standupMessage: buildTeamStandup(members, teamProjects),
+  };
+}
+
+/**
+ * "git@github.com:Org/Repo.git", "https://github.com/org/repo" and
+ * "ssh://git@github.com:22/org/repo.git" all become "github.com/org/repo".
+ */
+export function normalizeRemote(url: string): string {
+  let rest = url.trim();
+  const scp = rest.match(/^(?:[^@/]+@)?([^:/]+):(?!\d+\/)(.+)$/);
+  if (scp && !rest.includes('://')) {
+    rest = `${scp[1]}/${scp[2]}`;
+  } else {
+    rest = rest.replace(/^[a-z+]+:\/\//i, '').replace(/^[^@/]+@/, '').replace(/^([^/:]+):\d+/, '$1');
+  }
+  return rest.replace(/\.git\/?$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+/** Each person's standup, attributed */
+function buildTeamStandup(members: TeamMember[], projects: TeamProject[]): string {
+  return members.map((member) => `${member.name}:\n${memberStandup(member, projects)}`).join('\n\n');
+}
+
+/** A person's own standup, or a line per project they worked on when they didn't generate one */
+export function memberStandup(member: TeamMember, projects: TeamProject[]): string {
+  if (member.standupMessage) return member.standupMessage.trim();
+
+  const lines = projects.flatMap((project) => project.contributions
+    .filter((c) => c.member === member.id)
+    .map((c) => `- ${project.projectName}: ${c.sessions} session${c.sessions === 1 ? '' : 's'}, ${c.commits.length} commit${c.commits.length === 1 ? '' : 's'}`));
+  return lines.length > 0 ? lines.join('\n') : '- No activity.';
+}
+
+function memberOf({ recap, source }: TeamExport): TeamMember {
+  const fallback = basename(source, extname(source));
+  const email = recap.author?.email ?? null;
+  const name = recap.author?.name ?? email ?? fallback;
+  return {
+    id: email?.toLowerCase() ?? recap.author?.name ?? fallback,
+    name,
+    email,
+    totalSessions: recap.totalSessions,
+    totalCommits: 0,
+    totalTokens: recap.totalTokens,
+    totalCostUsd: recap.totalCostUsd,
+    totalDurationMs: recap.totalDurationMs,
+    projects: [],
+    standupMessage: recap.standupMessage,
+  };
+}
+
+function isAuthor(member: TeamMember, author: string): boolean {
+  const a = author.toLowerCase();
+  return a === member.name.toLowerCase() || (member.email !== null && a === member.email.toLowerCase());
+}
+
+function repoName(remoteUrl: string): string {
+  return normalizeRemote(remoteUrl).split('/').pop() ?? remoteUrl;
+}
@@ -1,5 +1,5 @@
 // ── Tool identifiers ──────────────────────────────────────────────
-export type ToolName = 'opencode' | 'claude-code' | 'cursor' | 'codex';
+export type ToolName = 'opencode' | 'claude-code' | 'cursor' | 'codex' | 'aider' | 'gemini-cli';
 
 // ── Unified session representation ───────────────────────────────
 export interface Session {
@@ -10,7 +10,8 @@ export interface Session {
   title: string | null;          // session title / conversation name
   startedAt: Date;
   endedAt: Date;
-  durationMs: number;
+  durationMs: number;             // active time, derived from `activity` (see activity.ts)
+  activity: SessionActivity;
 
   // Content
   messageCount: number;
@@ -22,9 +23,11 @@ export interface Session {
   // Tokens & cost
   tokens: TokenUsage;
   costUsd: number;                // estimated or actual cost
+  costSource: CostSource;
 
   // Model info
   models: string[];               // unique models used in this session
+  modelUsage: Record<string, ModelUsage>; // tokens, cost and messages per model
 
   // Files touched (from tool calls within the session)
   filesTouched: string[];
@@ -33,6 +36,34 @@ export interface Session {
   // User prompts + assistant text responses (truncated, no tool output blobs)
   conversationDigest: string;
   toolCallSummaries: string[];    // e.g. ["read app/models/llm.py", "edit app/routes/deals.py"]
+
+  // Commits this session likely produced (filled by buildDayRecap)
+  commitHashes?: string[];
+}
+
+/** A span of time in epoch ms */
+export interface Interval {
+  startMs: number;
+  endMs: number;
+}
+
+/** When things happened in a session, within the recap day. Durations are computed from this centrally. */
+export interface SessionActivity {
+  timestamps: number[];           // every message / event
+  busy: Interval[];               // spans the agent was generating, when the tool records them
+}
+
+/**
+ * Where a cost came from: `reported` by the tool itself, `computed` from a
+ * known price, or `guessed` because the model (or its price) is unknown.
+ */
+export type CostSource = 'reported' | 'computed' | 'guessed';
+
+/** One model's share of a session */
+export interface ModelUsage {
+  tokens: TokenUsage;
+  costUsd: number;
+  messageCount: number;           // assistant messages the model produced
 }
 
 export interface TokenUsage {
@@ -55,15 +86,49 @@ export interface GitCommit {
   insertions: number;
   deletions: number;
   files: string[];
+  sessionIds: string[];           // sessions that likely produced it (filled by buildDayRecap)
 }
 
 export interface GitActivity {
   projectPath: string;
   projectName: string;
-  commits: GitCommit[];
+  repoPrefix: string;             // projectPath inside its repo, "" at the root or "sub/dir/" (git rev-parse --show-prefix)
+  commits: GitCommit[];           // commits reachable from HEAD
   totalFilesChanged: number;
   totalInsertions: number;
   totalDeletions: number;
+
+  remoteUrl: string | null;       // origin, or the first remote; credentials stripped
+
+  // Work that isn't (yet) on the checked-out branch
+  currentBranch: string | null;   // null when HEAD is detached
+  branches: GitBranchActivity[];  // local branches with commits that day (git log --all)
+  uncommitted: UncommittedWork | null; // only for today: the working tree has no history
+  stashes: GitStash[];            // stash entries created that day
+}
+
+export interface GitBranchActivity {
+  name: string;
+  commitCount: number;
+}
+
+export interface DiffStats {
+  files: string[];
+  insertions: number;
+  deletions: number;
+}
+
+/** Uncommitted changes, limited to files the day's sessions touched */
+export interface UncommittedWork {
+  staged: DiffStats;
+  unstaged: DiffStats;
+  untracked: string[];
+}
+
+export interface GitStash {
+  ref: string;                    // e.g. "stash@{0}"
+  message: string;
+  timestamp: Date;
 }
 
 // ── Project-level summary ────────────────────────────────────────
@@ -78,7 +143,8 @@ export interface ProjectSummary {
   totalMessages: number;
   totalTokens: number;
   totalCostUsd: number;
-  totalDurationMs: number;
+  totalDurationMs: number;        // wall-clock active time, parallel sessions counted once
+  agentBusyMs: number;            // time an agent was generating, parallel sessions counted once
   toolsUsed: ToolName[];
   modelsUsed: string[];
   filesTouched: string[];
@@ -90,6 +156,7 @@ export interface ProjectSummary {
 // ── Day-level recap ──────────────────────────────────────────────
 export interface DayRecap {
   date: string;                   // YYYY-MM-DD
+  author: Author | null;          // who the recap belongs to, for `devday team merge`
   projects: ProjectSummary[];
 
   // Global aggregates
@@ -97,20 +164,170 @@ export interface DayRecap {
   totalMessages: number;
   totalTokens: number;
   totalCostUsd: number;
-  totalDurationMs: number;
+  totalDurationMs: number;        // wall-clock active time across all projects
+  agentBusyMs: number;
   toolsUsed: ToolName[];
+  subscriptions: SubscriptionUsage[]; // one per tool with a configured plan
+  budgets: BudgetStatus[];        // one per configured budget
 
   // Generated content
   standupMessage: string | null;  // short standup-ready summary
 }
 
+/** A developer, as identified in exported recaps */
+export interface Author {
+  name: string | null;
+  email: string | null;
+}
+
+// ── Flat-rate subscriptions ──────────────────────────────────────
+export interface SubscriptionPlan {
+  monthlyUsd: number;             // seat price
+  includedUsd: number | null;     // API-priced usage included; beyond it is billed at API prices
+}
+
+/** What a plan cost compared to what the same usage would have cost pay-as-you-go */
+export interface SubscriptionUsage {
+  tool: ToolName;
+  plan: SubscriptionPlan;
+  apiEquivalentUsd: number;       // the day's sessions at API prices
+  amortizedUsd: number;           // the day's share of the seat price, plus overage incurred that day
+  monthToDate: {
+    from: string;                 // YYYY-MM-DD, first of the month
+    to: string;                   // YYYY-MM-DD, the recap date
+    apiEquivalentUsd: number;
+    amortizedUsd: number;         // seat price prorated to `to`, plus overage
+    overageUsd: number;
+  };
+}
+
+// ── Budgets ──────────────────────────────────────────────────────
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+/** A spending limit, for everything or narrowed to one tool or project */
+export interface Budget {
+  period: BudgetPeriod;
+  limitUsd: number;
+  tool: ToolName | null;
+  project: string | null;         // name, path or glob, matched like --project
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  from: string;                   // YYYY-MM-DD, start of the period
+  to: string;                     // YYYY-MM-DD, the recap date
+  spentUsd: number;
+  projectedUsd: number | null;    // at the period's end, from the run rate so far; null for daily budgets
+  over: boolean;                  // spentUsd > limitUsd
+}
+
+// ── Range-level recap (week / month / custom) ────────────────────
+export interface RangeProjectTotals {
+  projectPath: string;
+  projectName: string;
+  activeDays: string[];           // YYYY-MM-DD dates with sessions or commits
+
+  totalSessions: number;
+  totalMessages: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  totalDurationMs: number;
+  agentBusyMs: number;
+  totalCommits: number;
+  totalInsertions: number;
+  totalDeletions: number;
+  toolsUsed: ToolName[];
+  modelsUsed: string[];
+}
+
+export interface RangeRecap {
+  from: string;                   // YYYY-MM-DD, inclusive
+  to: string;                     // YYYY-MM-DD, inclusive
+  days: DayRecap[];               // one entry per calendar day, including empty ones
+  projects: RangeProjectTotals[];
+
+  // Global aggregates
+  activeDays: number;
+  totalSessions: number;
+  totalMessages: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  totalDurationMs: number;
+  agentBusyMs: number;
+  totalCommits: number;
+  toolsUsed: ToolName[];
+
+  // Generated content
+  narrative: string | null;       // multi-day narrative for status reports / retros
+}
+
+// ── Team recap (devday team merge) ───────────────────────────────
+export interface TeamMember {
+  id: string;                     // email, else name, else the export's file name
+  name: string;
+  email: string | null;
+  totalSessions: number;
+  totalCommits: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  totalDurationMs: number;
+  projects: string[];             // names of the team projects they worked on
+  standupMessage: string | null;
+}
+
+/** One person's share of a team project */
+export interface TeamContribution {
+  member: string;                 // TeamMember.id
+  sessions: number;
+  commits: GitCommit[];
+  costUsd: number;
+  durationMs: number;
+  tools: ToolName[];
+  summary: string | null;         // their aiSummary for the project
+}
+
+export interface TeamProject {
+  key: string;                    // normalized remote URL, or member + local path without one
+  projectName: string;
+  remoteUrl: string | null;
+  contributions: TeamContribution[];
+  totalSessions: number;
+  totalCommits: number;
+  totalCostUsd: number;
+  totalDurationMs: number;        // summed across people
+}
+
+export interface TeamRecap {
+  date: string;
+  members: TeamMember[];
+  projects: TeamProject[];
+  totalSessions: number;
+  totalCommits: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  standupMessage: string;         // each person's standup, attributed
+}
+
 // ── Config ───────────────────────────────────────────────────────
+export type OutputFormat = 'terminal' | 'json' | 'markdown' | 'html';
+
+export interface LocalLlmConfig {
+  baseUrl: string;        // e.g. http://localhost:11434/v1 — /chat/completions is appended
+  model: string;          // e.g. llama3.1, qwen2.5-coder:7b
+  apiKey: string | null;  // only for servers started with an API key (env only)
+}
+
 export interface DevDayConfig {
   // API keys for summarization
   concentrateApiKey: string | null;
   anthropicApiKey: string | null;
   openaiApiKey: string | null;
-  preferredSummarizer: 'concentrate' | 'anthropic' | 'openai' | 'none';
+  preferredSummarizer: 'concentrate' | 'anthropic' | 'openai' | 'local' | 'none';
+  summarizerModel: string | null;     // overrides the preferred summarizer's default model
+
+  // Self-hosted OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM).
+  // When set, it takes priority over every cloud provider.
+  localLlm: LocalLlmConfig | null;
 
   // Optional Linear MCP integration for standup enrichment
   linearMcpServerUrl: string | null; // remote MCP endpoint URL
@@ -122,13 +339,68 @@ export interface DevDayConfig {
     claudeCodeHome: string | null;    // ~/.claude
     cursorStateDb: string | null;     // ~/Library/Application Support/Cursor/...
     codexHome: string | null;         // ~/.codex
+    geminiHome: string | null;        // ~/.gemini
   };
 
+  // Extra directories to search for Aider history files (.aider.chat.history.md).
+  // Each entry may be a repo itself or a folder of repos.
+  aiderSearchRoots: string[];
+
   // Which tools to scan
   enabledTools: ToolName[];
 
+  // Extra regexes whose matches are redacted from session text (on top of the built-in
+  // secret / PII detectors) before anything is summarized, cached or printed
+  redactPatterns: string[];
+
+  // Project names or paths whose sessions are dropped from every recap
+  excludedProjects: string[];
+
+  // Output format used when --format / --json / -o don't pick one
+  defaultFormat: OutputFormat;
+
+  // Where a recap day starts and ends (see dayWindow in dates.ts)
+  timeZone: string | null;            // IANA zone; null = the machine's
+  dayStartHour: number;               // 0-23; e.g. 4 counts 02:00 work as the previous day
+
+  // A gap between session events longer than this is a break, not active time
+  idleThresholdMs: number;
+
   // Git
   gitAuthorFilter: string | null;     // filter commits by author email/name
+
+  // Identity stamped on recaps; null falls back to git's user.name / user.email
+  author: Author | null;
+
+  // Spending limits checked on every day recap (see budgets.ts)
+  budgets: Budget[];
+
+  // Flat-rate plans per tool; their sessions' costUsd is API-equivalent, not billed
+  plans: Partial<Record<ToolName, SubscriptionPlan>>;
+
+  // Slack incoming webhook for `--post slack` (DEVDAY_SLACK_WEBHOOK_URL or config)
+  slackWebhookUrl: string | null;
+
+  // `devday digest`: who the weekly email goes to, and the server that sends it
+  digest: DigestConfig;
+  smtp: SmtpConfig | null;            // null until smtp.host is set
+}
+
+export interface DigestConfig {
+  from: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;                    // {from} and {to} become the range's dates
+}
+
+export type SmtpSecurity = 'starttls' | 'tls' | 'none';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;             // tls = implicit TLS from the first byte (port 465)
+  user: string | null;
+  password: string | null;            // DEVDAY_SMTP_PASSWORD only, never saved
 }
 
 // ── Parser interface ─────────────────────────────────────────────
@@ -136,38 +408,52 @@ export interface Parser {
   name: ToolName;
   isAvailable(): Promise<boolean>;
   getSessions(date: string): Promise<Session[]>; // date = YYYY-MM-DD
+  /**
+   * Latest mtime (ms epoch) of the source files that can contribute sessions
+   * to the given date, or null if it can't be determined cheaply.
+   * Used by the history index to decide whether a day needs re-parsing.
+   */
+  getSourceMtime(date: string): Promise<number | null>;
+  /**
+   * Identifies which source files getSourceMtime looked at, for parsers whose
+   * file set depends on more than config (e.g. the current directory).
+   * A different key re-parses the day even if no mtime moved.
+   */
+  getSourceKey?(): string;
+  /**
+   * Inspect the tool's storage without building sessions: which paths were
+   * checked, which formats were found, and how much failed to parse.
+   * Used by `devday doctor`.
+   */
+  diagnose(): Promise<ParserDiagnostics>;
+}
+
+// ── Diagnostics (devday doctor) ──────────────────────────────────
+export interface PathCheck {
+  label: string;                  // e.g. "projects dir", "__store.db"
+  path: string;
+  exists: boolean;
+}
+
+export interface ParserDiagnostics {
+  paths: PathCheck[];
+  formats: Record<string, number>; // storage format / schema version → items found in it
+  scanned: number;                 // files or rows examined
+  skipped: number;                 // files or rows that failed to parse
+  notes: string[];
 }
 
 // ── Model pricing (per million tokens) ───────────────────────────
 export interface ModelPricing {
+  effectiveFrom?: string;         // YYYY-MM-DD; absent = since the model launched
   inputPerMillion: number;
   outputPerMillion: number;
   cacheReadPerMillion?: number;
   cacheWritePerMillion?: number;
 }
 
-export const MODEL_PRICING: Record<string, ModelPricing> = {
-  // Anthropic
-  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 },
-  'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.3, cacheWritePerMillion: 3.75 },
-  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4, cacheReadPerMillion: 0.08, cacheWritePerMillion: 1 },
-  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75, cacheReadPerMillion: 1.5, cacheWritePerMillion: 18.75 },
-  'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
-
-  // OpenAI
-  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
-  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
-  'o1': { inputPerMillion: 15, outputPerMillion: 60 },
-  'o1-mini': { inputPerMillion: 3, outputPerMillion: 12 },
-  'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
-  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
-
-  // Google
-  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
-  'gemini-2.0-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
-  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
-
-  // DeepSeek
-  'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.1 },
-  'deepseek-reasoner': { inputPerMillion: 0.55, outputPerMillion: 2.19 },
-};
+/** Built-in prices merged with ~/.config/devday/pricing.json (see pricing.ts) */
+export interface PricingTable {
+  models: Record<string, ModelPricing[]>; // each model's prices, oldest first
+  aliases: Record<string, string>;        // other names a tool reports → key in `models`
+}
@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AiderParser } from '../src/parsers/aider.js';
+
+/** A repo folder holding the given aider history files */
+function makeRepo(chat: string, input = ''): string {
+  const dir = mkdtempSync(join(tmpdir(), 'devday-aider-'));
+  writeFileSync(join(dir, '.aider.chat.history.md'), chat.trimStart());
+  if (input) writeFileSync(join(dir, '.aider.input.history'), input.trimStart());
+  return dir;
+}
+
+const TWO_CHATS = `
+# aider chat started at 2026-03-10 09:00:00
+
+> Model: gpt-4o with diff edit format
+
+#### fix the parser
+
+Fixed it.
+
+> Applied edit to src/parser.ts
+> Tokens: 1.0k sent, 100 received. Cost: $0.01 message, $0.01 session.
+
+# aider chat started at 2026-03-10 14:00:00
+
+#### add a test
+
+Added one.
+
+> Tokens: 2.0k sent, 200 received. Cost: $0.02 message, $0.02 session.
+`;
+
+test('each "aider chat started" block is its own session', async () => {
+  const repo = makeRepo(TWO_CHATS);
+  const sessions = await new AiderParser([repo]).getSessions('2026-03-10');
+
+  assert.deepEqual(sessions.map((s) => s.title), ['fix the parser', 'add a test']);
+  assert.deepEqual(sessions[0].filesTouched, [join(repo, 'src/parser.ts')]);
+  assert.equal(sessions[0].costUsd, 0.01);
+  assert.equal(sessions[0].costSource, 'reported');
+  assert.equal(sessions[1].tokens.total, 2_200);
+});
+
+test('repos are found in immediate subfolders of a search dir', async () => {
+  const root = mkdtempSync(join(tmpdir(), 'devday-aider-root-'));
+  mkdirSync(join(root, 'api'));
+  writeFileSync(join(root, 'api', '.aider.chat.history.md'), TWO_CHATS.trimStart());
+
+  const sessions = await new AiderParser([root]).getSessions('2026-03-10');
+  assert.equal(sessions.length, 2);
+  assert.equal(sessions[0].projectName, 'api');
+});
+
+test('a chat past midnight counts each prompt on the day it was typed', async () => {
+  const repo = makeRepo(`
+# aider chat started at 2026-03-10 23:50:00
+
+> Model: gpt-4o with diff edit format
+
+#### fix the parser
+
+Fixed it.
+
+> Applied edit to a.ts
+> Tokens: 1.0k sent, 100 received. Cost: $0.01 message, $0.01 session.
+
+#### now add tests
+
+Added tests.
+
+> Applied edit to b.ts
+> Tokens: 2.0k sent, 200 received. Cost: $0.02 message, $0.03 session.
+`, `
+# 2026-03-10 23:51:00.000000
++fix the parser
+
+# 2026-03-11 00:05:00.000000
++now add tests
+`);
+  const parser = new AiderParser([repo]);
+  const [first] = await parser.getSessions('2026-03-10');
+  const [second] = await parser.getSessions('2026-03-11');
+
+  assert.equal(first.title, 'fix the parser');
+  assert.equal(first.tokens.total, 1_100);
+  assert.equal(first.costUsd, 0.01);
+  assert.deepEqual(first.filesTouched, [join(repo, 'a.ts')]);
+
+  assert.equal(second.title, 'now add tests');
+  assert.equal(second.tokens.total, 2_200);
+  assert.equal(second.costUsd, 0.02);
+  assert.deepEqual(second.models, ['gpt-4o']);
+});
+
+test('requests without a cost line are estimated on top of the reported ones', async () => {
+  const repo = makeRepo(`
+# aider chat started at 2026-03-10 09:00:00
+
+> Model: gpt-4o with diff edit format
+
+#### first
+
+Done.
+
+> Tokens: 1.0k sent, 100 received. Cost: $0.01 message, $0.01 session.
+
+#### second
+
+Done.
+
+> Tokens: 1.0k sent, 100 received.
+`);
+  const [session] = await new AiderParser([repo]).getSessions('2026-03-10');
+  assert.ok(session.costUsd > 0.01, `expected more than the reported $0.01, got ${session.costUsd}`);
+  assert.equal(session.costSource, 'computed');
+  assert.equal(session.modelUsage['gpt-4o'].messageCount, 2);
+  assert.equal(session.modelUsage['gpt-4o'].costUsd, session.costUsd);
+});
+
+test('the source key changes when another history file is found', () => {
+  const a = makeRepo(TWO_CHATS);
+  const b = makeRepo(TWO_CHATS);
+
+  assert.equal(new AiderParser([a]).getSourceKey(), new AiderParser([a]).getSourceKey());
+  assert.notEqual(new AiderParser([a]).getSourceKey(), new AiderParser([a, b]).getSourceKey());
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { budgetsStart, evaluateBudgets, parseBudget } from '../src/budgets.js';
+import type { Session } from '../src/types.js';
+import { makeSession } from './fixtures.js';
+
+test('budgets parse a period, an amount and an optional scope', () => {
+  assert.deepEqual(parseBudget('monthly 200'), { period: 'monthly', limitUsd: 200, tool: null, project: null });
+  assert.deepEqual(parseBudget(' weekly  $40 tool cursor'), { period: 'weekly', limitUsd: 40, tool: 'cursor', project: null });
+  assert.deepEqual(parseBudget('daily 10 project ~/work/my api'), { period: 'daily', limitUsd: 10, tool: null, project: '~/work/my api' });
+});
+
+test('malformed budgets are rejected with the spec in the message', () => {
+  assert.throws(() => parseBudget('yearly 100'), /"yearly 100" must start with daily, weekly, monthly/);
+  assert.throws(() => parseBudget('daily'), /positive amount/);
+  assert.throws(() => parseBudget('daily -5'), /positive amount/);
+  assert.throws(() => parseBudget('daily 5 tool'), /expected "tool <name>" or "project <name>"/);
+  assert.throws(() => parseBudget('daily 5 team core'), /expected "tool <name>" or "project <name>"/);
+});
+
+test('spend is summed over the period so far and projected from the run rate', () => {
+  // 2026-03-11 is a Wednesday, so the week so far is Monday to Wednesday
+  const sessionsByDay = new Map<string, Session[]>([
+    ['2026-03-08', [makeSession({ costUsd: 100 })]],
+    ['2026-03-09', [makeSession({ costUsd: 6 })]],
+    ['2026-03-10', [makeSession({ costUsd: 3 }), makeSession({ tool: 'cursor', costUsd: 9 })]],
+    ['2026-03-11', [makeSession({ costUsd: 12 })]],
+  ]);
+  const [daily, weekly, cursor] = evaluateBudgets(
+    '2026-03-11',
+    [parseBudget('daily 10'), parseBudget('weekly 50'), parseBudget('weekly 50 tool cursor')],
+    sessionsByDay,
+  );
+
+  assert.deepEqual([daily.from, daily.to], ['2026-03-11', '2026-03-11']);
+  assert.equal(daily.spentUsd, 12);
+  assert.equal(daily.projectedUsd, null);
+  assert.equal(daily.over, true);
+  assert.equal(weekly.from, '2026-03-09');
+  assert.equal(weekly.spentUsd, 30);
+  assert.equal(weekly.projectedUsd, 70);
+  assert.equal(weekly.over, false);
+  assert.equal(cursor.spentUsd, 9);
+});
+
+test('project budgets match like --project', () => {
+  const sessionsByDay = new Map([['2026-03-11', [
+    makeSession({ projectPath: '/work/api', projectName: 'api', costUsd: 5 }),
+    makeSession({ projectPath: '/work/web', projectName: 'web', costUsd: 7 }),
+  ]]]);
+  const [byName, byPath] = evaluateBudgets(
+    '2026-03-11',
+    [parseBudget('daily 10 project api'), parseBudget('daily 10 project /work')],
+    sessionsByDay,
+  );
+
+  assert.equal(byName.spentUsd, 5);
+  assert.equal(byPath.spentUsd, 12);
+});
+
+test('the earliest period start covers every budget', () => {
+  const budgets = [parseBudget('daily 10'), parseBudget('weekly 50'), parseBudget('monthly 200')];
+  assert.equal(budgetsStart('2026-03-11', budgets), '2026-03-01');
+  assert.equal(budgetsStart('2026-03-02', budgets.slice(0, 2)), '2026-03-02');
+  assert.equal(budgetsStart('2026-03-11', []), null);
+});
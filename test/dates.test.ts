@@ -0,0 +1,41 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dateOf, dayWindow, setDayBoundary } from '../src/dates.js';
+
+const HOUR = 3_600_000;
+
+afterEach(() => setDayBoundary({ timeZone: null, dayStartHour: 0 }));
+
+test('a zone day starts at its local midnight', () => {
+  setDayBoundary({ timeZone: 'America/New_York', dayStartHour: 0 });
+  const { startMs, endMs } = dayWindow('2026-03-10');
+
+  assert.equal(new Date(startMs).toISOString(), '2026-03-10T04:00:00.000Z');
+  assert.equal(endMs + 1 - startMs, 24 * HOUR);
+});
+
+test('days are 23 and 25 hours long across DST changes', () => {
+  setDayBoundary({ timeZone: 'America/New_York', dayStartHour: 0 });
+  const spring = dayWindow('2026-03-08');
+  const fall = dayWindow('2026-11-01');
+
+  assert.equal(new Date(spring.startMs).toISOString(), '2026-03-08T05:00:00.000Z');
+  assert.equal(spring.endMs + 1 - spring.startMs, 23 * HOUR);
+  assert.equal(new Date(fall.startMs).toISOString(), '2026-11-01T04:00:00.000Z');
+  assert.equal(fall.endMs + 1 - fall.startMs, 25 * HOUR);
+});
+
+test('consecutive windows leave no gap or overlap around DST', () => {
+  setDayBoundary({ timeZone: 'Europe/Berlin', dayStartHour: 4 });
+  for (const [day, next] of [['2026-03-28', '2026-03-29'], ['2026-03-29', '2026-03-30'], ['2026-10-25', '2026-10-26']]) {
+    assert.equal(dayWindow(day).endMs + 1, dayWindow(next).startMs);
+  }
+});
+
+test('instants before the day-start hour belong to the previous day', () => {
+  setDayBoundary({ timeZone: 'America/New_York', dayStartHour: 4 });
+
+  assert.equal(dateOf(Date.parse('2026-03-10T07:00:00Z')), '2026-03-09'); // 03:00 EDT
+  assert.equal(dateOf(Date.parse('2026-03-10T08:00:00Z')), '2026-03-10'); // 04:00 EDT
+  assert.equal(dateOf(Date.parse('2026-11-01T08:30:00Z')), '2026-10-31'); // 03:30 EST, after fall back
+});
@@ -0,0 +1,30 @@
+import type { Session } from '../src/types.js';
+
+/** A minimal session; override whatever the test is about */
+export function makeSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 's1',
+    tool: 'claude-code',
+    projectPath: '/work/api',
+    projectName: 'api',
+    title: 'Fix the parser',
+    startedAt: new Date('2026-03-10T09:00:00Z'),
+    endedAt: new Date('2026-03-10T10:00:00Z'),
+    durationMs: 3_600_000,
+    activity: { timestamps: [Date.parse('2026-03-10T09:00:00Z'), Date.parse('2026-03-10T10:00:00Z')], busy: [] },
+    messageCount: 2,
+    userMessageCount: 1,
+    assistantMessageCount: 1,
+    summary: null,
+    topics: [],
+    tokens: { input: 100, output: 50, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 150 },
+    costUsd: 0.01,
+    costSource: 'computed',
+    models: ['claude-sonnet-4-5'],
+    modelUsage: {},
+    filesTouched: [],
+    conversationDigest: '',
+    toolCallSummaries: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GeminiCliParser } from '../src/parsers/gemini-cli.js';
+
+const PROJECT = '/work/api';
+const PROJECT_HASH = createHash('sha256').update(PROJECT).digest('hex');
+
+/** A ~/.gemini with one recorded chat for PROJECT, at noon local time on 2026-03-10 */
+function makeGeminiHome(tokens: Record<string, number>): string {
+  const home = mkdtempSync(join(tmpdir(), 'devday-gemini-'));
+  const chats = join(home, 'tmp', PROJECT_HASH, 'chats');
+  mkdirSync(chats, { recursive: true });
+  const at = (minute: number) => new Date(2026, 2, 10, 12, minute).toISOString();
+  writeFileSync(join(chats, 'session-1.json'), JSON.stringify({
+    sessionId: 'g1',
+    projectHash: PROJECT_HASH,
+    startTime: at(0),
+    lastUpdated: at(5),
+    messages: [
+      { id: '1', timestamp: at(0), type: 'user', content: 'refactor the db layer' },
+      { id: '2', timestamp: at(1), type: 'gemini', content: 'Done.', model: 'gemini-2.5-pro', tokens },
+    ],
+  }));
+  return home;
+}
+
+test('thinking tokens are billed at the output rate', async () => {
+  const home = makeGeminiHome({ input: 10_000, output: 500, cached: 8_000, thoughts: 200, tool: 0, total: 10_700 });
+  const [session] = await new GeminiCliParser(home, [PROJECT]).getSessions('2026-03-10');
+
+  assert.equal(session.tokens.reasoning, 200);
+  assert.equal(session.tokens.cacheRead, 8_000);
+  // 2k fresh input at $1.25, 500 output + 200 thinking at $10, 8k cached at $0.125 (per million)
+  assert.ok(Math.abs(session.costUsd - 0.0105) < 1e-9, `got ${session.costUsd}`);
+});
+
+test('project folders map back to known project roots', async () => {
+  const home = makeGeminiHome({ input: 100, output: 10, total: 110 });
+
+  const [known] = await new GeminiCliParser(home, [PROJECT]).getSessions('2026-03-10');
+  assert.equal(known.projectPath, PROJECT);
+
+  const [unknown] = await new GeminiCliParser(home, []).getSessions('2026-03-10');
+  assert.equal(unknown.projectPath, null);
+});
+
+test('the source key changes when a folder becomes known, not for unrelated projects', () => {
+  const home = makeGeminiHome({ input: 100, output: 10, total: 110 });
+  const key = (known: string[]) => new GeminiCliParser(home, known).getSourceKey();
+
+  assert.notEqual(key([]), key([PROJECT]));
+  assert.equal(key([PROJECT]), key([PROJECT, '/work/other']));
+});
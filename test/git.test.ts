@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLog } from '../src/git.js';
+
+const RS = '\x1e';
+const FS = '\x1f';
+
+/** One commit record as `git log --numstat -z --format=<RS>%H<FS>%h<FS>%an<FS>%aI<FS>%s` prints it */
+function record(hash: string, subject: string, numstat: string[]): string {
+  const header = [hash, hash.slice(0, 7), 'Dev', '2026-03-10T09:30:00+00:00', subject].join(FS);
+  return `${RS}${header}\0${numstat.length ? '\n' : ''}${numstat.map((entry) => `${entry}\0`).join('')}`;
+}
+
+test('commits carry their subject, files and line counts', () => {
+  const [commit] = parseLog(record('a'.repeat(40), 'first | one', ['2\t1\tsrc/a.ts', '5\t0\tsrc/b.ts']));
+
+  assert.equal(commit.message, 'first | one');
+  assert.equal(commit.shortHash, 'aaaaaaa');
+  assert.deepEqual(commit.files, ['src/a.ts', 'src/b.ts']);
+  assert.equal(commit.insertions, 7);
+  assert.equal(commit.deletions, 1);
+  assert.equal(commit.filesChanged, 2);
+});
+
+test('renames report the new path and binary files count no lines', () => {
+  const raw =
+    record('b'.repeat(40), 'rename', ['1\t0\t\0old name.ts\0new name.ts']) +
+    record('c'.repeat(40), 'binary', ['-\t-\tlogo.png', '3\t0\tREADME.md']);
+  const [renamed, binary] = parseLog(raw);
+
+  assert.deepEqual(renamed.files, ['new name.ts']);
+  assert.equal(renamed.insertions, 1);
+  assert.deepEqual(binary.files, ['logo.png', 'README.md']);
+  assert.equal(binary.insertions, 3);
+  assert.equal(binary.deletions, 0);
+});
+
+test('commits without file changes still count', () => {
+  const commits = parseLog(record('d'.repeat(40), 'empty', []) + record('e'.repeat(40), 'next', ['1\t1\ta.ts']));
+
+  assert.equal(commits.length, 2);
+  assert.deepEqual(commits[0].files, []);
+  assert.deepEqual(commits[1].files, ['a.ts']);
+});
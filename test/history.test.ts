@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SessionHistory } from '../src/history.js';
+import { today } from '../src/dates.js';
+import { makeSession } from './fixtures.js';
+
+async function openTemp(): Promise<SessionHistory> {
+  return SessionHistory.open(join(mkdtempSync(join(tmpdir(), 'devday-history-')), 'history.db'));
+}
+
+test('stored sessions come back with their dates revived', async () => {
+  const history = await openTemp();
+  history.putSessions('claude-code', '2026-03-10', 1_000, '', [makeSession()]);
+
+  const sessions = history.getSessions('claude-code', '2026-03-10', 1_000, '');
+  assert.equal(sessions?.length, 1);
+  assert.ok(sessions![0].startedAt instanceof Date);
+  assert.equal(sessions![0].startedAt.toISOString(), '2026-03-10T09:00:00.000Z');
+  history.close();
+});
+
+test('a day that was never scanned, or another tool, is a miss', async () => {
+  const history = await openTemp();
+  history.putSessions('claude-code', '2026-03-10', 1_000, '', [makeSession()]);
+
+  assert.equal(history.getSessions('claude-code', '2026-03-11', 1_000, ''), null);
+  assert.equal(history.getSessions('cursor', '2026-03-10', 1_000, ''), null);
+  history.close();
+});
+
+test('an empty scan is cached too', async () => {
+  const history = await openTemp();
+  history.putSessions('claude-code', '2026-03-10', 1_000, '', []);
+  assert.deepEqual(history.getSessions('claude-code', '2026-03-10', 1_000, ''), []);
+  history.close();
+});
+
+test('a changed source re-parses today', async () => {
+  const history = await openTemp();
+  const now = Date.now();
+  history.putSessions('claude-code', today(), now - 60_000, '', [makeSession()]);
+
+  assert.notEqual(history.getSessions('claude-code', today(), now - 60_000, ''), null);
+  assert.equal(history.getSessions('claude-code', today(), now, ''), null);
+  history.close();
+});
+
+test('edits made after a day is over keep that day cached', async () => {
+  const history = await openTemp();
+  history.putSessions('claude-code', '2020-01-15', Date.now() - 60_000, '', [makeSession()]);
+  assert.notEqual(history.getSessions('claude-code', '2020-01-15', Date.now(), ''), null);
+  history.close();
+});
+
+test('a new scan replaces the stored sessions', async () => {
+  const history = await openTemp();
+  history.putSessions('claude-code', '2026-03-10', 1_000, '', [makeSession({ id: 'a' }), makeSession({ id: 'b' })]);
+  history.putSessions('claude-code', '2026-03-10', 2_000, '', [makeSession({ id: 'c' })]);
+
+  assert.deepEqual(history.getSessions('claude-code', '2026-03-10', 2_000, '')?.map((s) => s.id), ['c']);
+  history.close();
+});
+
+test('a scan only counts for the same set of source files', async () => {
+  const history = await openTemp();
+  history.putSessions('aider', '2026-03-10', 1_000, 'repo-a', [makeSession({ tool: 'aider' })]);
+
+  assert.notEqual(history.getSessions('aider', '2026-03-10', 1_000, 'repo-a'), null);
+  assert.equal(history.getSessions('aider', '2026-03-10', 1_000, 'repo-a+b'), null);
+  history.close();
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { linkSessionsToCommits } from '../src/merge.js';
+import type { GitCommit } from '../src/types.js';
+import { makeSession } from './fixtures.js';
+
+function makeCommit(hash: string, files: string[], at = '2026-03-10T09:30:00Z'): GitCommit {
+  return {
+    hash,
+    shortHash: hash.slice(0, 7),
+    message: 'change',
+    author: 'dev',
+    timestamp: new Date(at),
+    filesChanged: files.length,
+    insertions: 1,
+    deletions: 0,
+    files,
+    sessionIds: [],
+  };
+}
+
+test('absolute and relative session paths match repo-relative commit paths', () => {
+  const absolute = makeSession({ id: 'abs', filesTouched: ['/work/api/src/a.ts'] });
+  const relative = makeSession({ id: 'rel', filesTouched: ['./src/b.ts'] });
+  const commits = [makeCommit('aaaa', ['src/a.ts']), makeCommit('bbbb', ['src/b.ts'])];
+
+  linkSessionsToCommits('/work/api', '', [absolute, relative], commits);
+
+  assert.deepEqual(absolute.commitHashes, ['aaaa']);
+  assert.deepEqual(relative.commitHashes, ['bbbb']);
+  assert.deepEqual(commits[0].sessionIds, ['abs']);
+});
+
+test('a project in a subdirectory matches only its own files, not same-named ones elsewhere', () => {
+  const session = makeSession({ projectPath: '/work/mono/api', filesTouched: ['src/index.ts'] });
+  const own = makeCommit('aaaa', ['api/src/index.ts']);
+  const sibling = makeCommit('bbbb', ['web/src/index.ts']);
+
+  linkSessionsToCommits('/work/mono/api', 'api/', [session], [own, sibling]);
+
+  assert.deepEqual(session.commitHashes, ['aaaa']);
+  assert.deepEqual(sibling.sessionIds, []);
+});
+
+test('commits outside the session window or on files outside the project are not linked', () => {
+  const session = makeSession({ filesTouched: ['/work/api/src/a.ts', '/work/other/src/a.ts'] });
+  const late = makeCommit('aaaa', ['src/a.ts'], '2026-03-10T11:30:00Z');
+  const early = makeCommit('bbbb', ['src/a.ts'], '2026-03-10T08:59:00Z');
+  const inGrace = makeCommit('cccc', ['src/a.ts'], '2026-03-10T10:45:00Z');
+
+  linkSessionsToCommits('/work/api', '', [session], [late, early, inGrace]);
+
+  assert.deepEqual(session.commitHashes, ['cccc']);
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUILTIN_PRICING, resolveModel } from '../src/pricing.js';
+
+test('exact names and aliases resolve to their table key', () => {
+  assert.equal(resolveModel(BUILTIN_PRICING, 'gpt-4o'), 'gpt-4o');
+  assert.equal(resolveModel(BUILTIN_PRICING, 'claude-4.5-sonnet'), 'claude-sonnet-4-5');
+  assert.equal(resolveModel(BUILTIN_PRICING, '  GPT-4o '), 'gpt-4o');
+});
+
+test('provider prefixes and snapshot dates are dropped', () => {
+  assert.equal(resolveModel(BUILTIN_PRICING, 'anthropic/claude-sonnet-4-20250514'), 'claude-sonnet-4');
+  assert.equal(resolveModel(BUILTIN_PRICING, 'openai/gpt-4o-2024-08-06'), 'gpt-4o');
+  assert.equal(resolveModel(BUILTIN_PRICING, 'claude-3-7-sonnet-latest'), 'claude-3-7-sonnet');
+});
+
+test('no partial matches', () => {
+  assert.equal(resolveModel(BUILTIN_PRICING, 'o1-pro'), null);
+  assert.equal(resolveModel(BUILTIN_PRICING, 'gpt-4o-mini-tts'), null);
+  assert.equal(resolveModel(BUILTIN_PRICING, 'claude'), null);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRedactors, redactSession, redactText } from '../src/redact.js';
+import { makeSession } from './fixtures.js';
+
+test('built-in patterns replace secrets with their kind', () => {
+  const { text, count } = redactText('mail me at dev@example.com', buildRedactors([]));
+  assert.equal(count, 1);
+  assert.ok(!text.includes('dev@example.com'));
+  assert.match(text, /\[REDACTED:[a-z-]+\]/);
+});
+
+test('custom patterns apply, invalid ones are reported and skipped', () => {
+  const invalid: string[] = [];
+  const redactors = buildRedactors(['ACME-\\d{6}', '('], (pattern) => invalid.push(pattern));
+
+  assert.deepEqual(invalid, ['(']);
+  assert.equal(redactText('ticket ACME-123456', redactors).text, 'ticket [REDACTED:custom]');
+});
+
+test('file paths are redacted along with the text fields', () => {
+  const session = makeSession({
+    title: 'rotate ACME-123456',
+    filesTouched: ['/work/api/customers/ACME-123456.json'],
+  });
+  const count = redactSession(session, buildRedactors(['ACME-\\d{6}']));
+
+  assert.equal(count, 2);
+  assert.equal(session.title, 'rotate [REDACTED:custom]');
+  assert.deepEqual(session.filesTouched, ['/work/api/customers/[REDACTED:custom].json']);
+});
+
+test('redacting twice changes nothing more', () => {
+  const session = makeSession({ title: 'token ACME-123456' });
+  const redactors = buildRedactors(['ACME-\\d{6}']);
+  redactSession(session, redactors);
+  assert.equal(redactSession(session, redactors), 0);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSubscriptionUsage } from '../src/subscriptions.js';
+import { makeSession } from './fixtures.js';
+
+test('the seat price is spread over the month and compared with API prices', () => {
+  const [usage] = buildSubscriptionUsage(
+    '2026-03-10',
+    { 'claude-code': { monthlyUsd: 31, includedUsd: null } },
+    ['claude-code'],
+    [makeSession({ costUsd: 4 })],
+    [makeSession({ costUsd: 20 }), makeSession({ tool: 'codex', costUsd: 100 })],
+  );
+
+  assert.equal(usage.apiEquivalentUsd, 4);
+  assert.equal(usage.amortizedUsd, 1);
+  assert.deepEqual(usage.monthToDate, {
+    from: '2026-03-01',
+    to: '2026-03-10',
+    apiEquivalentUsd: 24,
+    amortizedUsd: 10,
+    overageUsd: 0,
+  });
+});
+
+test('usage beyond the included amount counts on the day it was crossed', () => {
+  const [usage] = buildSubscriptionUsage(
+    '2026-03-10',
+    { 'claude-code': { monthlyUsd: 31, includedUsd: 50 } },
+    ['claude-code'],
+    [makeSession({ costUsd: 10 })],
+    [makeSession({ costUsd: 45 })],
+  );
+
+  assert.equal(usage.amortizedUsd, 1 + 5);
+  assert.equal(usage.monthToDate.overageUsd, 5);
+  assert.equal(usage.monthToDate.amortizedUsd, 10 + 5);
+});
+
+test('tools without a plan are left out', () => {
+  const usage = buildSubscriptionUsage('2026-03-10', {}, ['claude-code', 'codex'], [makeSession()], []);
+  assert.deepEqual(usage, []);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTeamRecap, normalizeRemote, parseTeamExport } from '../src/team.js';
+
+test('ssh, scp-style and https remotes of one repo normalize alike', () => {
+  for (const url of [
+    'git@github.com:Org/Repo.git',
+    'https://github.com/org/repo',
+    'https://user@github.com/org/repo.git/',
+    'ssh://git@github.com:22/org/repo.git',
+  ]) {
+    assert.equal(normalizeRemote(url), 'github.com/org/repo', url);
+  }
+  assert.equal(normalizeRemote('git@gitlab.example.com:group/sub/repo.git'), 'gitlab.example.com/group/sub/repo');
+});
+
+/** A `devday --json` export holding the given projects */
+function exportOf(
+  source: string,
+  author: { name: string; email: string } | null,
+  projects: { path: string; remote: string | null; commits: { hash: string; author: string }[]; costUsd?: number }[],
+  date = '2026-03-10',
+) {
+  const recap = {
+    date,
+    author,
+    projects: projects.map((p) => ({
+      projectPath: p.path,
+      projectName: p.path.split('/').pop(),
+      sessions: [],
+      git: {
+        remoteUrl: p.remote,
+        commits: p.commits.map((c) => ({ ...c, shortHash: c.hash.slice(0, 7), message: 'change', timestamp: `${date}T10:00:00Z`, files: [] })),
+      },
+      totalSessions: 1,
+      totalCostUsd: p.costUsd ?? 1,
+      totalDurationMs: 60_000,
+      toolsUsed: ['claude-code'],
+      aiSummary: null,
+    })),
+    totalSessions: projects.length,
+    totalTokens: 100,
+    totalCostUsd: projects.reduce((sum, p) => sum + (p.costUsd ?? 1), 0),
+    totalDurationMs: 60_000 * projects.length,
+    standupMessage: null,
+  };
+  return parseTeamExport(JSON.stringify(recap), source);
+}
+
+test('clones of one remote merge and shared commits count once, for their author', () => {
+  const ana = { name: 'Ana', email: 'ana@example.com' };
+  const bo = { name: 'Bo', email: 'bo@example.com' };
+  const team = buildTeamRecap([
+    exportOf('ana.json', ana, [{ path: '/home/ana/api', remote: 'git@github.com:org/api.git', commits: [{ hash: 'a1', author: 'Ana' }, { hash: 'b1', author: 'bo@example.com' }] }]),
+    exportOf('bo.json', bo, [{ path: '/Users/bo/src/api', remote: 'https://github.com/org/api', commits: [{ hash: 'b1', author: 'bo@example.com' }], costUsd: 3 }]),
+  ]);
+
+  assert.equal(team.projects.length, 1);
+  const [api] = team.projects;
+  assert.equal(api.projectName, 'api');
+  assert.equal(api.totalCommits, 2);
+  assert.equal(api.totalCostUsd, 4);
+  assert.deepEqual(api.contributions.map((c) => [c.member, c.commits.map((commit) => commit.hash)]), [
+    ['bo@example.com', ['b1']],
+    ['ana@example.com', ['a1']],
+  ]);
+  assert.deepEqual(team.members.map((m) => m.totalCommits), [1, 1]);
+});
+
+test('projects without a remote stay separate per person', () => {
+  const team = buildTeamRecap([
+    exportOf('ana.json', null, [{ path: '/work/scratch', remote: null, commits: [] }]),
+    exportOf('bo.json', null, [{ path: '/work/scratch', remote: null, commits: [] }]),
+  ]);
+
+  assert.deepEqual(team.projects.map((p) => p.projectName).sort(), ['scratch (ana)', 'scratch (bo)']);
+  assert.match(team.standupMessage, /^ana:\n- scratch \(ana\): 1 session, 0 commits/);
+});
+
+test('exports from different days or the same person are refused', () => {
+  const ana = { name: 'Ana', email: 'ana@example.com' };
+  assert.throws(
+    () => buildTeamRecap([exportOf('a.json', ana, []), exportOf('b.json', null, [], '2026-03-11')]),
+    /b\.json is for 2026-03-11, but a\.json is for 2026-03-10/,
+  );
+  assert.throws(
+    () => buildTeamRecap([exportOf('a.json', ana, []), exportOf('b.json', { name: 'Ana B', email: 'ANA@example.com' }, [])]),
+    /a\.json and b\.json are both from ana@example\.com/,
+  );
+  assert.throws(() => parseTeamExport('{"projects": 1}', 'x.json'), /x\.json: not a day recap/);
+});